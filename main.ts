@@ -3,15 +3,71 @@ import {
   MarkdownRenderer,
   MarkdownRenderChild,
   MarkdownView,
+  Component,
   WorkspaceLeaf,
   Editor,
   TFile,
+  TAbstractFile,
   debounce,
   PluginSettingTab,
   Setting,
   Menu,
+  Modal,
+  App,
   Notice,
+  Events,
+  ItemView,
+  MarkdownPostProcessorContext,
+  MarkdownSectionInformation,
+  MarkdownFileInfo,
+  editorInfoField,
+  editorLivePreviewField,
+  loadPdfJs,
 } from "obsidian";
+import type { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
+import {
+  EditorState,
+  Extension,
+  Range,
+  StateField,
+  Text,
+} from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  WidgetType,
+} from "@codemirror/view";
+import {
+  ALT_COLUMN_SEPARATOR,
+  BlockColumn,
+  BlockHeading,
+  BlockLink,
+  BlockOptions,
+  computeFenceMask,
+  diffLines,
+  EmbedChainLink,
+  escapeColumnSeparators,
+  extractBlockMetadata,
+  findHeadingSection,
+  findHorizontalBlockFences,
+  headingSubpath,
+  HorizontalBlockFence,
+  isCircularEmbed,
+  mergeThreeWay,
+  NoteBlockMetadata,
+  normalizeHeading,
+  ParsedBlockHeader,
+  parseBlockHeader,
+  parseHeadings,
+  renamedSubpath,
+  rewriteBlockLinks,
+  SectionRange,
+  sectionHeading,
+  serializeBlockHeader,
+  splitColumns,
+  unescapeSeparator,
+} from "./syntax";
 
 type DividerStyle = "solid" | "dashed" | "dotted" | "transparent";
 
@@ -33,10 +89,16 @@ interface StyleSettings {
 
   blockPadding: number; // px
   blockGap: number; // px
+  stackBreakpoint: number; // px, stack columns below this width (0 = never)
   showToolbar: boolean;
 
   dividerHoverColor: string;
   dragActiveShadow: string; // color for inner shadow during drag
+  snapToRatios: boolean; // snap dragged widths to common fractions
+
+  maxEmbedDepth: number; // embeds inside embedded notes, counting the first
+
+  autoCleanupLayouts: boolean; // sweep unused layouts on startup
 }
 
 const DEFAULT_STYLE_SETTINGS: StyleSettings = {
@@ -57,43 +119,228 @@ const DEFAULT_STYLE_SETTINGS: StyleSettings = {
 
   blockPadding: 12,
   blockGap: 0,
+  stackBreakpoint: 480,
   showToolbar: false,
 
   dividerHoverColor: "#8bbdff",
   dragActiveShadow: "rgba(0,0,0,0.08)",
+  snapToRatios: false,
+
+  maxEmbedDepth: 4,
+
+  autoCleanupLayouts: false,
 };
 
-class EditableEmbedChild extends MarkdownRenderChild {
+const MIN_COLUMN_WIDTH = 80; // px
+const WIDTH_STEP = 32; // px, toolbar buttons and arrow keys
+const SNAP_DISTANCE = 12; // px
+const SNAP_RATIOS = [
+  { ratio: 1 / 4, label: "1/4" },
+  { ratio: 1 / 3, label: "1/3" },
+  { ratio: 1 / 2, label: "1/2" },
+  { ratio: 2 / 3, label: "2/3" },
+  { ratio: 3 / 4, label: "3/4" },
+];
+const LAYOUT_KEY_PREFIX = "horizontal-block-layout-";
+// Maps "<note path>#<block ordinal>" to the block id last rendered there
+const LOCATION_INDEX_KEY = "horizontal-block-locations";
+
+// Where a block sits: its location index key and the note's current text
+interface BlockLocation {
+  key: string;
+  content: string;
+}
+
+interface LayoutCleanupReport {
+  keys: string[];
+  bytes: number;
+}
+
+// List item with a checkbox; group 1 runs up to the status character
+const TASK_LINE = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)\]/;
+
+/**
+ * Splits markdown into column texts: before each heading of the highest
+ * level present, or else at blank lines between paragraphs. Lines inside
+ * fenced code never start a column.
+ */
+function splitIntoColumns(markdown: string): string[] {
+  const lines = markdown.split("\n");
+  const fenceMask = computeFenceMask(lines);
+  const headingLevel = (i: number) =>
+    fenceMask[i] ? 0 : lines[i].match(/^ {0,3}(#{1,6})\s/)?.[1].length ?? 0;
+
+  const levels = lines.map((_, i) => headingLevel(i)).filter(Boolean);
+  const topLevel = levels.length ? Math.min(...levels) : 0;
+
+  const columns: string[][] = [[]];
+  lines.forEach((line, i) => {
+    const current = columns[columns.length - 1];
+    const startsColumn = topLevel
+      ? headingLevel(i) === topLevel
+      : line.trim() !== "" &&
+        i > 0 &&
+        !fenceMask[i] &&
+        lines[i - 1].trim() === "";
+    if (startsColumn && current.some((l) => l.trim() !== "")) {
+      columns.push([line]);
+    } else {
+      current.push(line);
+    }
+  });
+
+  return columns
+    .map((column) => column.join("\n").trim())
+    .filter((column) => column !== "");
+}
+
+/** A code fence long enough to wrap `markdown`, which may contain fences. */
+function fenceMarkerFor(markdown: string): string {
+  const longest = Math.max(
+    2,
+    ...markdown
+      .split("\n")
+      .map((line) => line.match(/^\s*(`{3,})/)?.[1].length ?? 0)
+  );
+  return "`".repeat(longest + 1);
+}
+
+/** The block around `line` and its position among the note's blocks. */
+function findFenceAtLine(
+  content: string,
+  line: number
+): { fence: HorizontalBlockFence; ordinal: number } | null {
+  const fences = findHorizontalBlockFences(content);
+  const ordinal = fences.findIndex(
+    (fence) => fence.startLine <= line && line <= fence.endLine
+  );
+  // Editing blocks inside callouts and lists would drop their prefixes
+  if (ordinal < 0 || fences[ordinal].nested) return null;
+  return { fence: fences[ordinal], ordinal };
+}
+
+function formatWidthRatio(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`;
+}
+
+/**
+ * Anything hosting a `MarkdownView` inside a block that editor commands
+ * should be routed to while it has focus.
+ */
+interface EmbeddedEditor {
+  containerEl: HTMLElement;
+  getEditor(): Editor | null;
+  getView(): MarkdownView | null;
+}
+
+/**
+ * Opens a file in a detached leaf so its `MarkdownView` can be mounted
+ * inside a block instead of a workspace pane.
+ */
+async function openDetachedMarkdownView(
+  app: App,
+  file: TFile
+): Promise<{ leaf: WorkspaceLeaf; view: MarkdownView | null }> {
+  const LeafConstructor = WorkspaceLeaf as unknown as {
+    new (...args: any[]): WorkspaceLeaf;
+  };
+  const leaf =
+    LeafConstructor.length === 0
+      ? new LeafConstructor()
+      : new LeafConstructor(app);
+  await leaf.openFile(file, { state: { mode: "source" } });
+  const view = leaf.view instanceof MarkdownView ? leaf.view : null;
+  return { leaf, view };
+}
+
+// Where the `^id` marker of a referenced block lives: on the first line (list
+// items), the last line (paragraphs), or on a line of its own after the block
+type BlockAnchor = "first" | "last" | "standalone";
+
+interface BlockRange {
+  start: number;
+  end: number; // inclusive; a standalone marker line is left out
+  anchor: BlockAnchor;
+}
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+function blockMarkerRegex(blockId: string): RegExp {
+  const escaped = blockId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|\\s+)\\^${escaped}\\s*$`, "i");
+}
+
+/**
+ * Puts the `^id` marker back onto edited block text. A standalone marker
+ * stays on its own line in the note, so the text is returned as it is.
+ */
+function attachBlockMarker(
+  text: string,
+  blockId: string,
+  anchor: BlockAnchor
+): string[] {
+  const lines = text.replace(/\s+$/, "").split("\n");
+  if (anchor === "standalone") return lines;
+  const marker = `^${blockId}`;
+  if (lines.join("").trim() === "") return [...lines, marker];
+  const index = anchor === "first" ? 0 : lines.length - 1;
+  lines[index] = `${lines[index].replace(/\s+$/, "")} ${marker}`;
+  return lines;
+}
+
+class EditableEmbedChild
+  extends MarkdownRenderChild
+  implements EmbeddedEditor
+{
   private plugin: HorizontalBlocksPlugin;
   private manager: EditableEmbedManager;
   private sourcePath: string;
   private rawLink: string;
+  // Notes this embed is nested in, outermost first
+  private chain: EmbedChainLink[];
   private leaf: WorkspaceLeaf | null = null;
   private view: MarkdownView | null = null;
   private file: TFile | null = null;
   private section: string | null = null;
   private isProgrammaticUpdate = false;
   private isSaving = false;
-  private originalHeader = "";
-  private headerLevel = 0;
-  private lastCorrectedLineNumber = -1;
   private debouncedSectionSave: (() => void) | null = null;
+  private flushHeadingRename: (() => Promise<void>) | null = null;
+  // Section text as last read from or written to disk, the base for merges
+  private sectionBase = "";
+  private conflictEl: HTMLElement | null = null;
+  private missingEl: HTMLElement | null = null;
+  private savePending = false;
+  // Resolves once onload has set up the editor, or given up
+  readonly ready: Promise<void>;
+  private markReady: () => void = () => {};
 
   constructor(
     containerEl: HTMLElement,
     plugin: HorizontalBlocksPlugin,
     manager: EditableEmbedManager,
     sourcePath: string,
-    rawLink: string
+    rawLink: string,
+    chain: EmbedChainLink[]
   ) {
     super(containerEl);
     this.plugin = plugin;
     this.manager = manager;
     this.sourcePath = sourcePath;
     this.rawLink = rawLink;
+    this.chain = chain;
+    this.ready = new Promise((resolve) => (this.markReady = resolve));
   }
 
   async onload() {
+    try {
+      await this.setup();
+    } finally {
+      this.markReady();
+    }
+  }
+
+  private async setup() {
     this.containerEl.empty();
     this.containerEl.classList.add("horizontal-blocks-embed");
 
@@ -103,37 +350,51 @@ class EditableEmbedChild extends MarkdownRenderChild {
       return;
     }
 
-    if (targetInfo.section && targetInfo.section.startsWith("^")) {
-      this.renderError("Block reference embeds are not supported yet.");
-      return;
-    }
-
     const { file, section } = targetInfo;
     if (!file) {
       this.renderError("Embedded note not found.");
       return;
     }
 
-    if (file.path === this.sourcePath && !section) {
-      this.renderError("Cannot embed the current note within itself.");
+    // Each level opens another leaf, so stop before an embed leads back to
+    // a note already open above it or the nesting gets too deep
+    const chain = [...this.chain, { path: file.path, section }];
+    const host =
+      section && this.chain[0]?.path === file.path
+        ? await this.plugin.app.vault.cachedRead(file)
+        : "";
+    const circular = isCircularEmbed(
+      this.chain,
+      { path: file.path, section },
+      (hostSection, next) =>
+        this.sectionEmbeds(file, host, hostSection, next.path)
+    );
+    if (circular) {
+      this.renderChainPlaceholder(
+        `Circular embed: ${formatEmbedChain(chain)}`
+      );
       return;
     }
+    if (this.chain.length > this.plugin.style.maxEmbedDepth) {
+      this.renderChainPlaceholder(
+        `Embeds nested deeper than ${
+          this.plugin.style.maxEmbedDepth
+        } levels are not opened: ${formatEmbedChain(chain)}`
+      );
+      return;
+    }
+    this.containerEl.dataset.hblockEmbedChain = JSON.stringify(chain);
 
     this.file = file;
     this.section = section;
 
     try {
-      const LeafConstructor = WorkspaceLeaf as unknown as {
-        new (...args: any[]): WorkspaceLeaf;
-      };
-      this.leaf =
-        LeafConstructor.length === 0
-          ? new LeafConstructor()
-          : new LeafConstructor(this.plugin.app);
-      await this.leaf.openFile(file, { state: { mode: "source" } });
-
-      const view = this.leaf.view;
-      if (!(view instanceof MarkdownView)) {
+      const { leaf, view } = await openDetachedMarkdownView(
+        this.plugin.app,
+        file
+      );
+      this.leaf = leaf;
+      if (!view) {
         this.renderError("Failed to render embed as markdown.");
         await this.teardownLeaf();
         return;
@@ -174,6 +435,8 @@ class EditableEmbedChild extends MarkdownRenderChild {
     ) {
       (this.debouncedSectionSave as any).cancel();
     }
+    // Finish updating links to a renamed heading before the editor goes
+    await this.flushHeadingRename?.();
     await this.teardownLeaf();
   }
 
@@ -193,6 +456,20 @@ class EditableEmbedChild extends MarkdownRenderChild {
     return this.section;
   }
 
+  /**
+   * Whether the live editor can be torn down without losing anything: not
+   * focused, no save waiting and no conflict or missing-section prompt.
+   */
+  canSuspend(): boolean {
+    return (
+      !this.savePending &&
+      !this.isSaving &&
+      !this.conflictEl &&
+      !this.missingEl &&
+      !this.containerEl.contains(document.activeElement)
+    );
+  }
+
   private resolveLink(
     rawLink: string
   ): { file: TFile | null; section: string | null } | null {
@@ -222,47 +499,146 @@ class EditableEmbedChild extends MarkdownRenderChild {
     };
   }
 
+  /**
+   * Live-edits a section, or with a `^id` section the paragraph or list
+   * item (with its children) marked `^id`. Edits are merged with changes
+   * made to the note meanwhile; a block's marker is kept out of the editor
+   * and re-attached on save so the reference can't be broken from the embed.
+   */
   private async setupSectionSync(
     view: MarkdownView,
     file: TFile,
     section: string
   ): Promise<boolean> {
     const editor = view.editor;
+    const vault = this.plugin.app.vault;
+    // Blocks have no heading to keep or rename
+    const isBlock = section.startsWith("^");
+
+    const fileContent = await vault.read(file);
+    const initial = this.extractSection(file, fileContent, section);
+    if (initial === null && isBlock) {
+      this.renderError(`Block ${section} not found.`);
+      return false;
+    }
+    this.sectionBase = initial ?? "";
+    this.setSectionText(editor, this.sectionBase);
+    if (initial === null) this.showMissingSection(file, section);
+    (view as any).file = null;
 
-    const loadSection = async () => {
-      this.isProgrammaticUpdate = true;
-      const fileContent = await this.plugin.app.vault.read(file);
-      const sectionContent = this.extractSection(fileContent, section);
-      this.updateHeaderState(sectionContent);
-      const cursor = editor.getCursor();
-      editor.setValue(sectionContent);
+    // Set when the heading is renamed; links are updated once the user is
+    // done with the embed rather than after every keystroke
+    let pendingRename: {
+      headings: BlockHeading[];
+      line: number;
+      heading: string;
+    } | null = null;
+
+    const flushRename = async () => {
+      if (!pendingRename) return;
+      const { headings, line, heading } = pendingRename;
+      pendingRename = null;
+      const original = headings.find((h) => h.line === line);
       if (
-        editor.lineCount() > cursor.line &&
-        editor.getLine(cursor.line)?.length >= cursor.ch
-      ) {
-        editor.setCursor(cursor);
+        original &&
+        normalizeHeading(original.heading) === normalizeHeading(heading)
+      )
+        return;
+      try {
+        await this.plugin.updateLinksForHeadingRename(
+          file,
+          headings,
+          line,
+          heading
+        );
+      } catch (error) {
+        console.error("Horizontal Blocks: failed to update heading links", error);
+        new Notice(
+          "Horizontal Blocks: couldn't update links to the renamed heading."
+        );
       }
-      window.setTimeout(() => (this.isProgrammaticUpdate = false), 50);
     };
+    this.flushHeadingRename = flushRename;
 
-    await loadSection();
-    (view as any).file = null;
+    let headingNoticeShown = false;
 
     const debouncedSave = debounce(
       async () => {
-        if (this.isSaving) return;
+        this.savePending = false;
+        if (this.isSaving || this.conflictEl || this.missingEl) return;
         this.isSaving = true;
-        const newSectionContent = editor.getValue();
-        const currentFileContent = await this.plugin.app.vault.read(file);
-        const updatedFileContent = this.replaceSection(
-          currentFileContent,
-          section,
-          newSectionContent
-        );
-        if (updatedFileContent !== currentFileContent) {
-          await this.plugin.app.vault.modify(file, updatedFileContent);
+        let conflict: string | null = null;
+        let missing = false;
+        let headingless = false;
+        try {
+          // Merge against the note as it is at write time, so changes
+          // made since the section was loaded aren't overwritten
+          await vault.process(file, (current) => {
+            const disk = this.extractSection(file, current, section);
+            if (disk === null) {
+              missing = true;
+              return current;
+            }
+            const mine = editor.getValue();
+            const merged =
+              disk === this.sectionBase
+                ? mine
+                : mergeThreeWay(this.sectionBase, mine, disk);
+            if (merged === null) {
+              conflict = disk;
+              return current;
+            }
+            // Without a heading on the first line the text would run into
+            // the section above, so wait until there is one again
+            const heading = isBlock ? null : sectionHeading(merged);
+            if (!isBlock && heading === null) {
+              headingless = true;
+              return current;
+            }
+
+            if (merged !== mine) this.setSectionText(editor, merged);
+            const updated = this.replaceSection(file, current, section, merged);
+            if (updated === null) return current;
+            // Re-attaching a block's marker trims trailing whitespace
+            this.sectionBase = isBlock
+              ? this.extractSection(file, updated, section) ?? merged
+              : merged;
+
+            const previous = isBlock ? null : sectionHeading(disk);
+            if (heading !== null && previous !== null && previous !== heading) {
+              pendingRename ??= {
+                headings: this.getHeadings(file, current),
+                line: this.findSection(file, current, section)?.start ?? 0,
+                heading,
+              };
+              pendingRename.heading = heading;
+              section = renamedSubpath(section, heading);
+              this.section = section;
+            }
+            return updated;
+          });
+        } catch (error) {
+          console.error("Horizontal Blocks: failed to save section", error);
+          new Notice("Horizontal Blocks: couldn't save the embedded section.");
+        } finally {
+          this.isSaving = false;
+        }
+        // Told once, until the heading is back
+        if (headingless && !headingNoticeShown) {
+          new Notice(
+            "Horizontal Blocks: the embedded section isn't saved until its first line is a heading again."
+          );
+        }
+        headingNoticeShown = headingless;
+
+        if (missing) this.showMissingSection(file, section);
+        else if (conflict !== null) this.showConflict(file, section, conflict);
+        else if (
+          !headingless &&
+          !view.containerEl.contains(document.activeElement)
+        ) {
+          await flushRename();
         }
-        this.isSaving = false;
       },
       750,
       true
@@ -271,152 +647,427 @@ class EditableEmbedChild extends MarkdownRenderChild {
     this.debouncedSectionSave = debouncedSave;
 
     this.registerEvent(
-      this.plugin.app.vault.on("modify", async (modifiedFile: TFile) => {
-        if (modifiedFile.path === file.path && !this.isSaving) {
-          await loadSection();
+      vault.on("modify", async (modifiedFile: TFile) => {
+        if (modifiedFile.path !== file.path || this.isSaving) return;
+        const disk = this.extractSection(file, await vault.read(file), section);
+        if (disk === null) {
+          this.showMissingSection(file, section);
+          return;
+        }
+        if (this.missingEl) {
+          // The heading is back (e.g. created from the missing-section panel)
+          this.clearMissingSection();
+          this.sectionBase = disk;
+          this.setSectionText(editor, disk);
+          return;
+        }
+        if (this.conflictEl) {
+          this.showConflict(file, section, disk);
+          return;
+        }
+        if (disk === this.sectionBase) return;
+
+        const mine = editor.getValue();
+        const merged = mergeThreeWay(this.sectionBase, mine, disk);
+        if (merged === null) {
+          this.showConflict(file, section, disk);
+          return;
         }
+        this.sectionBase = disk;
+        this.setSectionText(editor, merged);
+        // Local edits merged into the new version still need saving
+        if (merged !== disk) debouncedSave();
       })
     );
 
     this.registerEvent(
       this.plugin.app.workspace.on("editor-change", (changedEditor: Editor) => {
         if (changedEditor !== editor || this.isProgrammaticUpdate) return;
-
-        const cursor = changedEditor.getCursor();
-        const lineContent = changedEditor.getLine(cursor.line);
-
-        if (cursor.line === 0 && lineContent !== this.originalHeader) {
-          this.isProgrammaticUpdate = true;
-          changedEditor.replaceRange(
-            this.originalHeader,
-            { line: 0, ch: 0 },
-            { line: 0, ch: lineContent.length }
-          );
-          this.isProgrammaticUpdate = false;
-          return;
-        }
-
-        if (cursor.line > 0 && lineContent.trim().startsWith("#")) {
-          const hashes = (lineContent.match(/^#+/) || [""])[0];
-          const level = hashes.length;
-          const requiredLevel = this.headerLevel + 1;
-          const requiredHashes = "#".repeat(requiredLevel);
-
-          if (
-            cursor.line === this.lastCorrectedLineNumber &&
-            level < requiredLevel
-          ) {
-            this.isProgrammaticUpdate = true;
-            changedEditor.replaceRange(
-              "",
-              { line: cursor.line, ch: 0 },
-              { line: cursor.line, ch: level }
-            );
-            this.isProgrammaticUpdate = false;
-            this.lastCorrectedLineNumber = -1;
-            debouncedSave();
-            return;
-          }
-
-          if (level <= this.headerLevel) {
-            this.isProgrammaticUpdate = true;
-            changedEditor.replaceRange(
-              requiredHashes,
-              { line: cursor.line, ch: 0 },
-              { line: cursor.line, ch: level }
-            );
-            this.lastCorrectedLineNumber = cursor.line;
-            this.isProgrammaticUpdate = false;
-          } else {
-            this.lastCorrectedLineNumber = -1;
-          }
-        } else {
-          this.lastCorrectedLineNumber = -1;
-        }
-
+        this.savePending = true;
         debouncedSave();
       })
     );
 
-    return true;
-  }
+    this.registerDomEvent(view.containerEl, "focusout", (evt: FocusEvent) => {
+      if (view.containerEl.contains(evt.relatedTarget as Node | null)) return;
+      // A queued save flushes the rename itself once it has written
+      if (!this.savePending) void flushRename();
+    });
 
-  private updateHeaderState(content: string) {
-    this.originalHeader = content.split("\n")[0] || "";
-    this.headerLevel = (this.originalHeader.match(/^#+/)?.[0] || "#").length;
+    return true;
   }
 
-  private extractSection(content: string, sectionName: string): string {
+  /**
+   * Finds the lines of block `^blockId`, preferring the metadata cache's
+   * block position and checking it against the text in case the cache is
+   * behind. List items are extended to cover their children, and a marker
+   * on its own line selects the block above it.
+   */
+  private locateBlock(
+    file: TFile,
+    content: string,
+    blockId: string
+  ): BlockRange | null {
     const lines = content.split("\n");
-    const headerRegex = new RegExp(
-      `^#{1,6}\\s+${this.escapeRegExp(sectionName)}\\s*$`
-    );
+    const marker = blockMarkerRegex(blockId);
+    const cached =
+      this.plugin.app.metadataCache.getFileCache(file)?.blocks?.[
+        blockId.toLowerCase()
+      ];
+
+    let start = -1;
+    let end = -1;
+    if (cached) {
+      const { start: from, end: to } = cached.position;
+      if (lines.slice(from.line, to.line + 1).some((l) => marker.test(l))) {
+        start = from.line;
+        end = to.line;
+      }
+    }
+    if (start < 0) {
+      const markerLine = lines.findIndex((line) => marker.test(line));
+      if (markerLine < 0) return null;
+      start = end = markerLine;
+      // A paragraph runs up to the previous blank line
+      if (!LIST_ITEM.test(lines[start])) {
+        while (start > 0 && lines[start - 1].trim() !== "") start--;
+      }
+    }
 
-    let startIdx = -1;
-    let sectionLevel = 0;
+    const markerLine = lines.findIndex(
+      (line, i) => i >= start && i <= end && marker.test(line)
+    );
+    if (lines[markerLine].replace(marker, "").trim() === "") {
+      // A marker on its own line refers to the block above it, possibly
+      // across a blank line, up to the blank line before that block
+      let last = markerLine - 1;
+      while (last >= 0 && lines[last].trim() === "") last--;
+      if (last < 0) {
+        return { start: markerLine, end: markerLine - 1, anchor: "standalone" };
+      }
+      let first = Math.min(start, last);
+      while (first > 0 && lines[first - 1].trim() !== "") first--;
+      return { start: first, end: last, anchor: "standalone" };
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      if (headerRegex.test(lines[i])) {
-        startIdx = i;
-        sectionLevel = (lines[i].match(/^#+/)?.[0] || "").length;
-        break;
+    if (LIST_ITEM.test(lines[start])) {
+      const indent = (lines[start].match(/^\s*/)?.[0] ?? "").length;
+      let last = end;
+      for (let i = end + 1; i < lines.length; i++) {
+        if (lines[i].trim() === "") continue;
+        if ((lines[i].match(/^\s*/)?.[0] ?? "").length <= indent) break;
+        last = i;
       }
+      return { start, end: last, anchor: "first" };
     }
 
-    if (startIdx === -1) return `# ${sectionName}\n\n*Section not found.*`;
+    return { start, end: markerLine, anchor: "last" };
+  }
 
-    let endIdx = lines.length;
-    for (let i = startIdx + 1; i < lines.length; i++) {
-      const match = lines[i].match(/^#+/);
-      if (match && match[0].length <= sectionLevel) {
-        endIdx = i;
-        break;
+  private setSectionText(editor: Editor, text: string) {
+    this.isProgrammaticUpdate = true;
+    const cursor = editor.getCursor();
+    editor.setValue(text);
+    if (
+      editor.lineCount() > cursor.line &&
+      editor.getLine(cursor.line)?.length >= cursor.ch
+    ) {
+      editor.setCursor(cursor);
+    }
+    window.setTimeout(() => (this.isProgrammaticUpdate = false), 50);
+  }
+
+  /**
+   * Pauses saving and shows a banner when the section was changed on disk
+   * in a way that can't be merged with the edits in this embed. Calling it
+   * again while the banner is up refreshes the disk version it offers.
+   */
+  private showConflict(file: TFile, section: string, disk: string) {
+    const editor = this.view?.editor;
+    if (!editor) return;
+
+    this.conflictEl?.remove();
+    const banner = createDiv("horizontal-blocks-embed-conflict");
+    this.conflictEl = banner;
+    this.containerEl.prepend(banner);
+    const kind = section.startsWith("^") ? "block" : "section";
+    banner.createSpan({
+      text: `This ${kind} was changed elsewhere while you were editing it.`,
+    });
+
+    const actions = banner.createDiv("horizontal-blocks-embed-conflict-actions");
+    const keepMine = actions.createEl("button", { text: "Keep mine" });
+    keepMine.addClass("mod-warning");
+    keepMine.addEventListener("click", async () => {
+      this.clearConflict();
+      this.isSaving = true;
+      try {
+        const mine = editor.getValue();
+        await this.plugin.app.vault.process(
+          file,
+          (current) =>
+            this.replaceSection(file, current, section, mine) ?? current
+        );
+        this.sectionBase = mine;
+      } finally {
+        this.isSaving = false;
       }
+    });
+
+    actions
+      .createEl("button", { text: "Use disk version" })
+      .addEventListener("click", () => {
+        this.clearConflict();
+        this.sectionBase = disk;
+        this.setSectionText(editor, disk);
+      });
+
+    actions
+      .createEl("button", { text: "Show diff" })
+      .addEventListener("click", () => {
+        new SectionDiffModal(this.plugin.app, disk, editor.getValue()).open();
+      });
+  }
+
+  private clearConflict() {
+    this.conflictEl?.remove();
+    this.conflictEl = null;
+  }
+
+  /**
+   * Replaces the editor with a read-only notice when the embedded heading
+   * or block no longer exists. Nothing is written to the note until the
+   * user re-links the embed or creates the section, or the block's marker
+   * is back.
+   */
+  private showMissingSection(file: TFile, section: string) {
+    if (this.missingEl) return;
+    this.clearConflict();
+    this.containerEl.addClass("is-section-missing");
+
+    const panel = createDiv("horizontal-blocks-embed-missing");
+    this.missingEl = panel;
+    this.containerEl.prepend(panel);
+    const isBlock = section.startsWith("^");
+    panel.createSpan({
+      text: isBlock
+        ? `Block ${section} no longer exists in ${file.basename}.`
+        : `Section "${section}" no longer exists in ${file.basename}.`,
+    });
+
+    const actions = panel.createDiv("horizontal-blocks-embed-conflict-actions");
+    if (!isBlock) {
+      actions
+        .createEl("button", { text: "Re-link…" })
+        .addEventListener("click", async (evt) => {
+          const content = await this.plugin.app.vault.cachedRead(file);
+          const headings = this.getHeadings(file, content);
+          if (headings.length === 0) {
+            new Notice(`Horizontal Blocks: ${file.basename} has no headings.`);
+            return;
+          }
+          const menu = new Menu();
+          headings.forEach((heading, index) => {
+            menu.addItem((item) =>
+              item
+                .setTitle(`${"#".repeat(heading.level)} ${heading.heading}`)
+                .onClick(() =>
+                  this.relinkSection(section, headingSubpath(headings, index))
+                )
+            );
+          });
+          menu.showAtMouseEvent(evt);
+        });
+
+      actions
+        .createEl("button", { text: "Create section" })
+        .addEventListener("click", () => this.createSection(file, section));
     }
 
-    return lines.slice(startIdx, endIdx).join("\n");
+    actions
+      .createEl("button", { text: "Open note" })
+      .addEventListener("click", () => {
+        void this.plugin.app.workspace.getLeaf(false).openFile(file);
+      });
   }
 
-  private replaceSection(
-    fullContent: string,
-    sectionName: string,
-    newSectionText: string
-  ): string {
-    const lines = fullContent.split("\n");
-    const headerRegex = new RegExp(
-      `^#{1,6}\\s+${this.escapeRegExp(sectionName)}\\s*$`
-    );
+  private clearMissingSection() {
+    this.missingEl?.remove();
+    this.missingEl = null;
+    this.containerEl.removeClass("is-section-missing");
+  }
+
+  /**
+   * Points this embed's link in the host note at another heading. The host
+   * block re-renders with the new link, which replaces this embed.
+   */
+  private async relinkSection(section: string, subpath: string) {
+    const host = this.plugin.app.vault.getAbstractFileByPath(this.sourcePath);
+    if (!(host instanceof TFile)) return;
+
+    const [target] = this.rawLink.split("|");
+    const notePart = target.slice(0, target.length - section.length - 1);
+    const updated = `${notePart}#${subpath}`;
+    try {
+      await this.plugin.app.vault.process(host, (content) =>
+        rewriteBlockLinks(content, (linkpath, linkSubpath) =>
+          `${linkpath}${linkSubpath}` === target ? updated : null
+        )
+      );
+    } catch (error) {
+      console.error("Horizontal Blocks: failed to re-link embed", error);
+      new Notice("Horizontal Blocks: couldn't update the embed link.");
+    }
+  }
 
-    let startIdx = -1;
-    let sectionLevel = 0;
+  /**
+   * Adds the missing heading to the embedded note, nested under the deepest
+   * part of its heading path that does exist (or at the end of the note).
+   */
+  private async createSection(file: TFile, section: string) {
+    const parts = section
+      .split("#")
+      .map((part) => part.trim())
+      .filter(Boolean);
+    if (parts.length === 0) return;
+
+    await this.plugin.app.vault.process(file, (content) => {
+      const lines = content.split("\n");
+      const headings = this.getHeadings(file, content);
+
+      let keep = parts.length - 1;
+      let parent: SectionRange | null = null;
+      for (; keep > 0; keep--) {
+        const path = parts.slice(0, keep).join("#");
+        parent = findHeadingSection(headings, path, lines.length);
+        if (parent) break;
+      }
 
-    for (let i = 0; i < lines.length; i++) {
-      if (headerRegex.test(lines[i])) {
-        startIdx = i;
-        sectionLevel = (lines[i].match(/^#+/)?.[0] || "").length;
-        break;
+      const level = parent?.level ?? 0;
+      const created = parts
+        .slice(keep)
+        .map((part, i) => `${"#".repeat(Math.min(6, level + 1 + i))} ${part}`);
+      const before = lines.slice(0, parent ? parent.end : lines.length);
+      const after = lines.slice(before.length);
+      while (before.length && before[before.length - 1].trim() === "") {
+        before.pop();
       }
+      return [
+        ...before,
+        ...(before.length ? [""] : []),
+        ...created,
+        ...(after.length ? [""] : []),
+        ...after,
+      ].join("\n");
+    });
+  }
+
+  /**
+   * Headings from the metadata cache, or parsed from `content` when the
+   * cache hasn't caught up with it yet (e.g. right after a save).
+   */
+  private getHeadings(file: TFile, content: string): BlockHeading[] {
+    const lines = content.split("\n");
+    const cached = this.plugin.app.metadataCache.getFileCache(file)?.headings;
+    if (
+      cached &&
+      cached.every((heading) => {
+        const line = lines[heading.position.start.line] ?? "";
+        return (
+          line.trimStart().startsWith("#".repeat(heading.level) + " ") &&
+          line.includes(heading.heading)
+        );
+      })
+    ) {
+      return cached.map((heading) => ({
+        heading: heading.heading,
+        level: heading.level,
+        line: heading.position.start.line,
+      }));
     }
+    return parseHeadings(content);
+  }
 
-    if (startIdx === -1)
-      return `${fullContent.trim()}\n\n${newSectionText}`.trim();
+  private findSection(
+    file: TFile,
+    content: string,
+    sectionName: string
+  ): SectionRange | null {
+    return findHeadingSection(
+      this.getHeadings(file, content),
+      sectionName,
+      content.split("\n").length
+    );
+  }
 
-    let endIdx = lines.length;
-    for (let i = startIdx + 1; i < lines.length; i++) {
-      const match = lines[i].match(/^#+/);
-      if (match && match[0].length <= sectionLevel) {
-        endIdx = i;
-        break;
+  /** Whether `section` of `file` holds a block that embeds `targetPath`. */
+  private sectionEmbeds(
+    file: TFile,
+    content: string,
+    section: string,
+    targetPath: string
+  ): boolean {
+    const range = this.findSection(file, content, section);
+    if (!range) return false;
+    return extractBlockMetadata(content).links.some((link) => {
+      if (!link.embed || link.line < range.start || link.line >= range.end) {
+        return false;
       }
-    }
+      const dest = link.linkpath
+        ? this.plugin.app.metadataCache.getFirstLinkpathDest(
+            link.linkpath,
+            file.path
+          )
+        : file;
+      return dest?.path === targetPath;
+    });
+  }
 
-    const before = lines.slice(0, startIdx);
-    const after = lines.slice(endIdx);
-    return [...before, ...newSectionText.split("\n"), ...after].join("\n");
+  private extractSection(
+    file: TFile,
+    content: string,
+    sectionName: string
+  ): string | null {
+    if (sectionName.startsWith("^")) {
+      const blockId = sectionName.slice(1);
+      const range = this.locateBlock(file, content, blockId);
+      if (!range) return null;
+      return content
+        .split("\n")
+        .slice(range.start, range.end + 1)
+        .map((line) => line.replace(blockMarkerRegex(blockId), ""))
+        .join("\n");
+    }
+    const range = this.findSection(file, content, sectionName);
+    if (!range) return null;
+    return content.split("\n").slice(range.start, range.end).join("\n");
   }
 
-  private escapeRegExp(text: string): string {
-    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  private replaceSection(
+    file: TFile,
+    fullContent: string,
+    sectionName: string,
+    newSectionText: string
+  ): string | null {
+    if (sectionName.startsWith("^")) {
+      const blockId = sectionName.slice(1);
+      const range = this.locateBlock(file, fullContent, blockId);
+      if (!range) return null;
+      const lines = fullContent.split("\n");
+      lines.splice(
+        range.start,
+        range.end - range.start + 1,
+        ...attachBlockMarker(newSectionText, blockId, range.anchor)
+      );
+      return lines.join("\n");
+    }
+    const range = this.findSection(file, fullContent, sectionName);
+    if (!range) return null;
+
+    const lines = fullContent.split("\n");
+    const before = lines.slice(0, range.start);
+    const after = lines.slice(range.end);
+    return [...before, ...newSectionText.split("\n"), ...after].join("\n");
   }
 
   private async teardownLeaf() {
@@ -432,451 +1083,1461 @@ class EditableEmbedChild extends MarkdownRenderChild {
     const errorEl = this.containerEl.createDiv("horizontal-blocks-embed-error");
     errorEl.setText(message);
   }
-}
-
-class EditableEmbedManager {
-  private plugin: HorizontalBlocksPlugin;
-  private embedRegistry = new Map<HTMLElement, EditableEmbedChild>();
-  private currentFocusedEmbed: EditableEmbedChild | null = null;
-  private originalExecuteCommand:
-    | ((command: any, ...args: any[]) => any)
-    | null = null;
-  private originalGetActiveViewOfType: ((type: any) => any) | null = null;
-  private focusInListener: ((event: FocusEvent) => void) | null = null;
-  private focusOutListener: ((event: FocusEvent) => void) | null = null;
-
-  constructor(plugin: HorizontalBlocksPlugin) {
-    this.plugin = plugin;
-  }
 
-  registerEmbed(embed: EditableEmbedChild) {
-    this.embedRegistry.set(embed.containerEl, embed);
-    this.ensureHooks();
+  private renderChainPlaceholder(message: string) {
+    this.containerEl.empty();
+    this.containerEl.createDiv({
+      cls: "horizontal-blocks-embed-circular",
+      text: message,
+    });
   }
+}
 
-  unregisterEmbed(embed: EditableEmbedChild) {
-    this.embedRegistry.delete(embed.containerEl);
-    if (this.currentFocusedEmbed === embed) {
-      this.currentFocusedEmbed = null;
-    }
-    if (this.embedRegistry.size === 0) {
-      this.removeHooks();
+/**
+ * The embeds an element sits inside, outermost first, starting with the
+ * note open in the workspace. Each live embed records its chain on its
+ * container so nested blocks, which render in a separate leaf, can find it.
+ */
+function embedChainAt(el: HTMLElement, sourcePath: string): EmbedChainLink[] {
+  const host = el.parentElement?.closest<HTMLElement>(
+    "[data-hblock-embed-chain]"
+  );
+  if (host?.dataset.hblockEmbedChain) {
+    try {
+      return JSON.parse(host.dataset.hblockEmbedChain);
+    } catch {
+      // Fall through to treating the element as top-level
     }
   }
+  return [{ path: sourcePath, section: null }];
+}
 
-  dispose() {
-    this.embedRegistry.clear();
-    this.currentFocusedEmbed = null;
-    this.removeHooks();
-  }
-
-  private ensureHooks() {
-    if (!this.originalExecuteCommand) {
-      this.overrideCommands();
-      this.overrideGetActiveView();
-      this.attachFocusListeners();
-    }
-  }
-
-  private overrideCommands() {
-    const commandsApi = (this.plugin.app as any)?.commands;
-    if (!commandsApi) return;
-    this.originalExecuteCommand = commandsApi.executeCommand;
-
-    const handlerMap: Record<string, (embed: EditableEmbedChild) => boolean> = {
-      "editor:toggle-checklist-status": (embed) => this.toggleChecklist(embed),
-      "editor:toggle-bold": (embed) =>
-        this.toggleMarkdownFormatting(embed, "**"),
-      "editor:toggle-italics": (embed) =>
-        this.toggleMarkdownFormatting(embed, "*"),
-      "editor:toggle-strikethrough": (embed) =>
-        this.toggleMarkdownFormatting(embed, "~~"),
-      "editor:toggle-code": (embed) =>
-        this.toggleMarkdownFormatting(embed, "`"),
-      "editor:insert-link": (embed) => this.insertLink(embed),
-      "editor:toggle-bullet-list": (embed) => this.toggleBulletList(embed),
-      "editor:toggle-numbered-list": (embed) => this.toggleNumberedList(embed),
-      "editor:indent-list": (embed) => this.indentList(embed),
-      "editor:unindent-list": (embed) => this.unindentList(embed),
-      "editor:insert-tag": (embed) => this.insertTag(embed),
-      "editor:swap-line-up": (embed) => this.swapLineUp(embed),
-      "editor:swap-line-down": (embed) => this.swapLineDown(embed),
-      "editor:duplicate-line": (embed) => this.duplicateLine(embed),
-      "editor:delete-line": (embed) => this.deleteLine(embed),
-    };
+function formatEmbedChain(chain: EmbedChainLink[]): string {
+  return chain
+    .map(({ path, section }) => {
+      const name = path.split("/").pop()?.replace(/\.md$/, "") ?? path;
+      return section ? `${name}#${section}` : name;
+    })
+    .join(" → ");
+}
 
-    commandsApi.executeCommand = (command: any, ...args: any[]) => {
-      const focusedEmbed = this.currentFocusedEmbed;
+// How long a live embed editor may sit unused before it is torn down
+const EMBED_IDLE_MS = 2 * 60 * 1000;
 
-      if (focusedEmbed && command?.id) {
-        const handler = handlerMap[command.id];
-        if (handler) {
-          const handled = handler(focusedEmbed);
-          if (handled) {
-            return handled;
-          }
-        }
-      }
+/**
+ * Shows Obsidian's read-only rendering of an embed and swaps in an
+ * `EditableEmbedChild` only while it is near the viewport or was clicked,
+ * so notes with many embeds don't build an editor for each one up front.
+ * The editor is torn down again once it scrolls away or sits idle.
+ */
+class LazyEmbedChild extends MarkdownRenderChild {
+  private plugin: HorizontalBlocksPlugin;
+  private previewEl: HTMLElement;
+  private sourcePath: string;
+  private rawLink: string;
+  private previewComponent: Component | null = null;
+  private live: EditableEmbedChild | null = null;
+  private liveEl: HTMLElement | null = null;
+  private isVisible = false;
+  private lastActivity = 0;
 
-      return this.originalExecuteCommand?.call(commandsApi, command, ...args);
-    };
+  constructor(
+    containerEl: HTMLElement,
+    previewEl: HTMLElement,
+    plugin: HorizontalBlocksPlugin,
+    sourcePath: string,
+    rawLink: string
+  ) {
+    super(containerEl);
+    this.previewEl = previewEl;
+    this.plugin = plugin;
+    this.sourcePath = sourcePath;
+    this.rawLink = rawLink;
   }
 
-  private overrideGetActiveView() {
-    const workspaceApi = this.plugin.app.workspace as any;
-    this.originalGetActiveViewOfType = workspaceApi.getActiveViewOfType;
-
-    workspaceApi.getActiveViewOfType = (type: any) => {
-      const focusedEmbed = this.currentFocusedEmbed;
-      const view = focusedEmbed?.getView();
-      if (view && view instanceof type) {
-        return view;
-      }
-      return this.originalGetActiveViewOfType?.call(workspaceApi, type);
-    };
-  }
+  onload() {
+    this.previewEl.addClass("horizontal-blocks-embed-preview");
 
-  private attachFocusListeners() {
-    this.focusInListener = (event: FocusEvent) => {
-      const target = event.target as HTMLElement | null;
-      const embed = this.findEmbedForElement(target);
-      if (embed) {
-        this.currentFocusedEmbed = embed;
-      }
-    };
+    const observer = new IntersectionObserver(
+      (entries) => {
+        this.isVisible = entries.some((entry) => entry.isIntersecting);
+        if (this.isVisible) this.activate();
+        else this.suspend();
+      },
+      { rootMargin: "200px 0px" }
+    );
+    observer.observe(this.containerEl);
+    this.register(() => observer.disconnect());
+
+    // Clicking the preview (but not a link in it) starts editing there
+    this.registerDomEvent(
+      this.containerEl,
+      "click",
+      (evt: MouseEvent) => {
+        const target = evt.target as HTMLElement;
+        if (!this.previewEl.contains(target) || target.closest("a")) return;
+        evt.preventDefault();
+        evt.stopPropagation();
+        this.activate(true);
+      },
+      { capture: true }
+    );
 
-    this.focusOutListener = (event: FocusEvent) => {
-      const nextTarget = event.relatedTarget as HTMLElement | null;
-      const embed = this.findEmbedForElement(nextTarget);
-      if (!embed) {
-        this.currentFocusedEmbed = null;
-      }
-    };
+    const touch = () => (this.lastActivity = Date.now());
+    this.registerDomEvent(this.containerEl, "focusin", touch);
+    this.registerDomEvent(this.containerEl, "keydown", touch);
+    this.registerDomEvent(this.containerEl, "pointerdown", touch);
 
-    document.addEventListener("focusin", this.focusInListener, true);
-    document.addEventListener("focusout", this.focusOutListener, true);
+    this.registerInterval(
+      window.setInterval(() => {
+        if (!this.isVisible || Date.now() - this.lastActivity > EMBED_IDLE_MS)
+          this.suspend();
+      }, 15 * 1000)
+    );
   }
 
-  private removeHooks() {
-    const commandsApi = (this.plugin.app as any)?.commands;
-    if (this.originalExecuteCommand && commandsApi) {
-      commandsApi.executeCommand = this.originalExecuteCommand;
-      this.originalExecuteCommand = null;
-    }
-    const workspaceApi = this.plugin.app.workspace as any;
-    if (this.originalGetActiveViewOfType && workspaceApi) {
-      workspaceApi.getActiveViewOfType = this.originalGetActiveViewOfType;
-      this.originalGetActiveViewOfType = null;
-    }
-    if (this.focusInListener) {
-      document.removeEventListener("focusin", this.focusInListener, true);
-      this.focusInListener = null;
+  private activate(focus = false) {
+    this.lastActivity = Date.now();
+    if (!this.live) {
+      this.liveEl = this.containerEl.createDiv();
+      this.live = new EditableEmbedChild(
+        this.liveEl,
+        this.plugin,
+        this.plugin.embedManager,
+        this.sourcePath,
+        this.rawLink,
+        embedChainAt(this.containerEl, this.sourcePath)
+      );
+      this.addChild(this.live);
+      this.previewEl.hide();
     }
-    if (this.focusOutListener) {
-      document.removeEventListener("focusout", this.focusOutListener, true);
-      this.focusOutListener = null;
+    if (focus) {
+      const live = this.live;
+      void live.ready.then(() => live.getEditor()?.focus());
     }
   }
 
-  private findEmbedForElement(
-    element: HTMLElement | null
-  ): EditableEmbedChild | null {
-    let current: HTMLElement | null = element;
-    while (current) {
-      const embed = this.embedRegistry.get(current);
-      if (embed) return embed;
-      current = current.parentElement;
+  private suspend() {
+    if (!this.live || !this.live.canSuspend()) return;
+    this.removeChild(this.live);
+    this.live = null;
+    this.liveEl?.remove();
+    this.liveEl = null;
+    // The old preview doesn't show edits made in the editor
+    void this.renderPreview();
+  }
+
+  /** Replaces the preview with a fresh read-only rendering of the embed. */
+  private async renderPreview() {
+    const component = this.addChild(new Component());
+    const host = createDiv();
+    await MarkdownRenderer.render(
+      this.plugin.app,
+      `![[${this.rawLink}]]`,
+      host,
+      this.sourcePath,
+      component
+    );
+    const previewEl = host.querySelector<HTMLElement>(".internal-embed");
+    if (!previewEl) {
+      this.removeChild(component);
+      this.previewEl.toggle(!this.live);
+      return;
     }
-    return null;
+
+    previewEl.addClass("horizontal-blocks-embed-preview");
+    this.previewEl.replaceWith(previewEl);
+    this.previewEl = previewEl;
+    if (this.previewComponent) this.removeChild(this.previewComponent);
+    this.previewComponent = component;
+    // The editor may have been opened again while rendering
+    previewEl.toggle(!this.live);
   }
+}
 
-  private toggleChecklist(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    const line = editor.getLine(cursor.line);
+/**
+ * Edits the markdown of a single column in place. The editor is a
+ * `MarkdownView` on the host note (so links and completions resolve from
+ * there) whose file is unbound before the column text is put in, so
+ * nothing is saved to disk until `onDone` splices the text back into the
+ * block.
+ */
+class ColumnEditorChild extends MarkdownRenderChild implements EmbeddedEditor {
+  private plugin: HorizontalBlocksPlugin;
+  private manager: EditableEmbedManager;
+  private file: TFile;
+  private markdown: string;
+  private onDone: (markdown: string | null) => Promise<void>;
+  private leaf: WorkspaceLeaf | null = null;
+  private view: MarkdownView | null = null;
+  private finished = false;
 
-    if (/^\s*- \[ \]/.test(line)) {
-      editor.replaceRange(
-        line.replace(/- \[ \]/, "- [x]"),
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
-    } else if (/^\s*- \[x\]/i.test(line)) {
-      editor.replaceRange(
-        line.replace(/- \[x\]/i, "- [ ]"),
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
-    } else {
-      const indent = line.match(/^\s*/)?.[0] ?? "";
-      const content = line.substring(indent.length);
-      editor.replaceRange(
-        `${indent}- [ ] ${content}`,
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
-    }
-    return true;
+  constructor(
+    containerEl: HTMLElement,
+    plugin: HorizontalBlocksPlugin,
+    manager: EditableEmbedManager,
+    file: TFile,
+    markdown: string,
+    onDone: (markdown: string | null) => Promise<void>
+  ) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.manager = manager;
+    this.file = file;
+    this.markdown = markdown;
+    this.onDone = onDone;
   }
 
-  private toggleMarkdownFormatting(
-    embed: EditableEmbedChild,
-    markdownChar: string
-  ): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const selection = editor.getSelection();
-    const len = markdownChar.length;
+  async onload() {
+    this.containerEl.classList.add(
+      "horizontal-blocks-embed",
+      "hblocks-column-editor"
+    );
 
-    if (
-      selection &&
-      selection.startsWith(markdownChar) &&
-      selection.endsWith(markdownChar)
-    ) {
-      editor.replaceSelection(selection.slice(len, -len));
-    } else if (selection) {
-      editor.replaceSelection(`${markdownChar}${selection}${markdownChar}`);
-    } else {
-      const cursor = editor.getCursor();
-      editor.replaceRange(markdownChar + markdownChar, cursor);
-      editor.setCursor({ line: cursor.line, ch: cursor.ch + len });
+    try {
+      const { leaf, view } = await openDetachedMarkdownView(
+        this.plugin.app,
+        this.file
+      );
+      this.leaf = leaf;
+      if (!view) {
+        new Notice("Horizontal Blocks: failed to open the column editor.");
+        await this.finish(null);
+        return;
+      }
+
+      // Unbind the host note first, or setting the text would save it there
+      view.file = null;
+      this.view = view;
+      view.editor.setValue(this.markdown);
+      view.containerEl.classList.add("horizontal-blocks-embed-view-container");
+      this.containerEl.appendChild(view.containerEl);
+      this.manager.registerEmbed(this);
+      view.editor.focus();
+    } catch (error) {
+      console.error("Horizontal Blocks: failed to open column editor", error);
+      new Notice("Horizontal Blocks: failed to open the column editor.");
+      await this.finish(null);
+      return;
     }
-    return true;
+
+    // Leaving the editor (blur or Escape) saves the column
+    this.registerDomEvent(this.containerEl, "focusout", (evt: FocusEvent) => {
+      const next = evt.relatedTarget as Node | null;
+      if (next && this.containerEl.contains(next)) return;
+      void this.finish(this.view?.editor.getValue() ?? null);
+    });
+    this.registerDomEvent(this.containerEl, "keydown", (evt: KeyboardEvent) => {
+      if (evt.key !== "Escape") return;
+      evt.preventDefault();
+      void this.finish(this.view?.editor.getValue() ?? null);
+    });
   }
 
-  private insertLink(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const selection = editor.getSelection();
-    if (selection) {
-      editor.replaceSelection(`[[${selection}]]`);
-    } else {
-      const cursor = editor.getCursor();
-      editor.replaceRange("[[]]", cursor);
-      editor.setCursor({ line: cursor.line, ch: cursor.ch + 2 });
+  async onunload() {
+    this.manager.unregisterEmbed(this);
+    if (this.leaf) {
+      this.leaf.detach();
+      this.leaf = null;
     }
-    return true;
+    this.view = null;
   }
 
-  private toggleBulletList(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    const line = editor.getLine(cursor.line);
+  getEditor(): Editor | null {
+    return this.view?.editor ?? null;
+  }
 
-    if (/^\s*- /.test(line)) {
-      editor.replaceRange(
-        line.replace(/^\s*- /, ""),
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
-    } else {
-      editor.replaceRange(
-        `- ${line}`,
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
+  getView(): MarkdownView | null {
+    return this.view;
+  }
+
+  private async finish(markdown: string | null) {
+    if (this.finished) return;
+    this.finished = true;
+    await this.onDone(markdown);
+  }
+}
+
+/**
+ * Makes the focused embed Obsidian's active editor, so every editor
+ * command (`editorCallback`/`editorCheckCallback`, from core or other
+ * plugins, by palette or hotkey) acts on the embed rather than the note
+ * hosting it. The host's editor is restored when focus leaves the embed.
+ */
+class EditableEmbedManager {
+  private plugin: HorizontalBlocksPlugin;
+  private embedRegistry = new Map<HTMLElement, EmbeddedEditor>();
+  private currentFocusedEmbed: EmbeddedEditor | null = null;
+  // Active editor before an embed took over, restored on focus out
+  private previousActiveEditor: MarkdownFileInfo | null = null;
+  private focusInListener: ((event: FocusEvent) => void) | null = null;
+  private focusOutListener: ((event: FocusEvent) => void) | null = null;
+
+  constructor(plugin: HorizontalBlocksPlugin) {
+    this.plugin = plugin;
+  }
+
+  registerEmbed(embed: EmbeddedEditor) {
+    this.embedRegistry.set(embed.containerEl, embed);
+    this.attachFocusListeners();
+  }
+
+  unregisterEmbed(embed: EmbeddedEditor) {
+    this.embedRegistry.delete(embed.containerEl);
+    if (this.currentFocusedEmbed === embed) {
+      this.release();
+    }
+    if (this.embedRegistry.size === 0) {
+      this.removeFocusListeners();
     }
-    return true;
   }
 
-  private toggleNumberedList(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    const line = editor.getLine(cursor.line);
+  dispose() {
+    this.release();
+    this.embedRegistry.clear();
+    this.removeFocusListeners();
+  }
 
-    if (/^\s*\d+\. /.test(line)) {
-      editor.replaceRange(
-        line.replace(/^\s*\d+\. /, ""),
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
-    } else {
-      editor.replaceRange(
-        `1. ${line}`,
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: line.length }
-      );
+  private attachFocusListeners() {
+    if (this.focusInListener) return;
+
+    this.focusInListener = (event: FocusEvent) => {
+      const embed = this.findEmbedForElement(event.target as HTMLElement);
+      if (embed && embed !== this.currentFocusedEmbed) this.activate(embed);
+    };
+
+    this.focusOutListener = (event: FocusEvent) => {
+      const nextTarget = event.relatedTarget as HTMLElement | null;
+      if (!this.findEmbedForElement(nextTarget)) this.release();
+    };
+
+    document.addEventListener("focusin", this.focusInListener, true);
+    document.addEventListener("focusout", this.focusOutListener, true);
+  }
+
+  private removeFocusListeners() {
+    if (this.focusInListener) {
+      document.removeEventListener("focusin", this.focusInListener, true);
+      this.focusInListener = null;
+    }
+    if (this.focusOutListener) {
+      document.removeEventListener("focusout", this.focusOutListener, true);
+      this.focusOutListener = null;
     }
-    return true;
   }
 
-  private indentList(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    editor.replaceRange("\t", { line: cursor.line, ch: 0 });
-    return true;
+  private activate(embed: EmbeddedEditor) {
+    const view = embed.getView();
+    if (!view) return;
+    const workspace = this.plugin.app.workspace;
+    if (!this.currentFocusedEmbed) {
+      this.previousActiveEditor = workspace.activeEditor;
+    }
+    this.currentFocusedEmbed = embed;
+    workspace.activeEditor = view;
   }
 
-  private unindentList(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    const line = editor.getLine(cursor.line);
-    if (line.startsWith("\t")) {
-      editor.replaceRange(
-        "",
-        { line: cursor.line, ch: 0 },
-        { line: cursor.line, ch: 1 }
-      );
+  private release() {
+    const embed = this.currentFocusedEmbed;
+    if (!embed) return;
+    this.currentFocusedEmbed = null;
+
+    const workspace = this.plugin.app.workspace;
+    // Leave it alone if Obsidian already moved on to another editor
+    if (workspace.activeEditor === embed.getView()) {
+      workspace.activeEditor = this.previousActiveEditor;
     }
-    return true;
+    this.previousActiveEditor = null;
   }
 
-  private insertTag(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    editor.replaceSelection("#");
-    return true;
+  private findEmbedForElement(
+    element: HTMLElement | null
+  ): EmbeddedEditor | null {
+    let current: HTMLElement | null = element;
+    while (current) {
+      const embed = this.embedRegistry.get(current);
+      if (embed) return embed;
+      current = current.parentElement;
+    }
+    return null;
   }
+}
 
-  private swapLineUp(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    if (cursor.line > 0) {
-      const currentLine = editor.getLine(cursor.line);
-      const prevLine = editor.getLine(cursor.line - 1);
-      editor.transaction({
-        changes: [
-          {
-            from: { line: cursor.line - 1, ch: 0 },
-            to: { line: cursor.line - 1, ch: prevLine.length },
-            text: currentLine,
-          },
-          {
-            from: { line: cursor.line, ch: 0 },
-            to: { line: cursor.line, ch: currentLine.length },
-            text: prevLine,
-          },
-        ],
-        selection: { from: { line: cursor.line - 1, ch: cursor.ch } },
-      });
+/** A non-markdown embed in a column and the size asked for in its alias. */
+interface FileEmbed {
+  file: TFile;
+  subpath: string; // including the leading #, or ""
+  width: number | null;
+  height: number | null;
+  sourcePath: string;
+}
+
+/**
+ * Renders one kind of file embed into `containerEl`, sized to the column.
+ * Resources that outlive the call are registered on `component`.
+ */
+type EmbedHandler = (
+  app: App,
+  containerEl: HTMLElement,
+  embed: FileEmbed,
+  component: Component
+) => void | Promise<void>;
+
+/** `400` or `400x300` from an embed alias; anything else means no size. */
+function parseEmbedSize(alias: string): {
+  width: number | null;
+  height: number | null;
+} {
+  const match = alias.trim().match(/^(\d+)(?:x(\d+))?$/);
+  return {
+    width: match ? Number(match[1]) : null,
+    height: match?.[2] ? Number(match[2]) : null,
+  };
+}
+
+const AUDIO_EXTENSIONS = [
+  "mp3",
+  "wav",
+  "m4a",
+  "3gp",
+  "flac",
+  "ogg",
+  "oga",
+  "opus",
+];
+
+// Canvas node and edge colors "1" to "6" follow the theme palette
+const CANVAS_COLORS: Record<string, string> = {
+  "1": "var(--color-red)",
+  "2": "var(--color-orange)",
+  "3": "var(--color-yellow)",
+  "4": "var(--color-green)",
+  "5": "var(--color-cyan)",
+  "6": "var(--color-purple)",
+};
+
+function openEmbedOnClick(app: App, el: HTMLElement, embed: FileEmbed) {
+  el.addClass("is-clickable");
+  el.addEventListener("click", () => {
+    void app.workspace.openLinkText(
+      `${embed.file.path}${embed.subpath}`,
+      embed.sourcePath
+    );
+  });
+}
+
+// The part of a PDF.js render task used to replace an outdated draw
+interface PdfRenderTask {
+  promise: Promise<void>;
+  cancel(): void;
+}
+
+/**
+ * Draws the page named by `#page=N` (default 1) with Obsidian's bundled
+ * PDF.js, scaled to the column width and redrawn when the column resizes.
+ */
+const renderPdfEmbed: EmbedHandler = async (
+  app,
+  containerEl,
+  embed,
+  component
+) => {
+  const pdfjs = await loadPdfJs();
+  const data = await app.vault.readBinary(embed.file);
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  component.register(() => void pdf.destroy());
+
+  const requested = Number(embed.subpath.match(/page=(\d+)/)?.[1] ?? 1);
+  const page = await pdf.getPage(
+    Math.min(Math.max(requested, 1), pdf.numPages)
+  );
+  const canvas = containerEl.createEl("canvas");
+  openEmbedOnClick(app, canvas, embed);
+
+  let renderedWidth = 0;
+  let task: PdfRenderTask | null = null;
+  const draw = () => {
+    const width = containerEl.clientWidth;
+    if (width === 0 || width === renderedWidth) return;
+    renderedWidth = width;
+
+    const natural = page.getViewport({ scale: 1 });
+    let scale = width / natural.width;
+    if (embed.height) scale = Math.min(scale, embed.height / natural.height);
+    const viewport = page.getViewport({
+      scale: scale * window.devicePixelRatio,
+    });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    canvas.style.width = `${natural.width * scale}px`;
+    canvas.style.height = `${natural.height * scale}px`;
+
+    task?.cancel();
+    const next: PdfRenderTask = page.render({
+      canvasContext: canvas.getContext("2d"),
+      viewport,
+    });
+    task = next;
+    next.promise.catch(() => {
+      // Cancelled by a newer draw
+    });
+  };
+
+  const observer = new ResizeObserver(draw);
+  observer.observe(containerEl);
+  component.register(() => observer.disconnect());
+  draw();
+};
+
+const renderAudioEmbed: EmbedHandler = (app, containerEl, embed) => {
+  containerEl.createEl("audio", {
+    attr: {
+      controls: "",
+      preload: "metadata",
+      // Media fragments such as #t=30 start playback there
+      src: `${app.vault.getResourcePath(embed.file)}${embed.subpath}`,
+    },
+  });
+};
+
+/** Sets up an SVG whose viewBox fits `bounds`, scaled to the column width. */
+function createFittedSvg(
+  containerEl: HTMLElement,
+  embed: FileEmbed,
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }
+): SVGSVGElement {
+  const padding = 20;
+  const width = Math.max(bounds.maxX - bounds.minX, 1) + padding * 2;
+  const height = Math.max(bounds.maxY - bounds.minY, 1) + padding * 2;
+  const svg = containerEl.createSvg("svg", {
+    cls: "hblocks-embed-drawing",
+    attr: {
+      viewBox: [bounds.minX - padding, bounds.minY - padding, width, height]
+        .map(String)
+        .join(" "),
+      preserveAspectRatio: "xMidYMid meet",
+    },
+  });
+  if (embed.height) svg.style.height = `${embed.height}px`;
+  return svg;
+}
+
+function boundsOf(
+  boxes: { x: number; y: number; width: number; height: number }[]
+) {
+  return {
+    minX: Math.min(...boxes.map((box) => box.x)),
+    minY: Math.min(...boxes.map((box) => box.y)),
+    maxX: Math.max(...boxes.map((box) => box.x + box.width)),
+    maxY: Math.max(...boxes.map((box) => box.y + box.height)),
+  };
+}
+
+function addSvgLabel(
+  svg: SVGElement,
+  text: string,
+  x: number,
+  y: number,
+  maxChars: number
+) {
+  const label = text.split("\n").find((line) => line.trim()) ?? "";
+  svg
+    .createSvg("text", { attr: { x, y } })
+    .setText(
+      label.length > maxChars
+        ? `${label.slice(0, Math.max(maxChars - 1, 1))}…`
+        : label
+    );
+}
+
+/** Overview of a canvas with the whole board fitted into the column. */
+const renderCanvasEmbed: EmbedHandler = async (app, containerEl, embed) => {
+  const data: CanvasData = JSON.parse(
+    (await app.vault.cachedRead(embed.file)) || "{}"
+  );
+  const nodes = data.nodes ?? [];
+  if (nodes.length === 0) {
+    containerEl.createDiv({
+      cls: "hblocks-embed-empty",
+      text: "Empty canvas",
+    });
+    return;
+  }
+
+  const svg = createFittedSvg(containerEl, embed, boundsOf(nodes));
+  svg.addClass("hblocks-embed-canvas");
+  openEmbedOnClick(app, containerEl, embed);
+
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const anchor = (node: AllCanvasNodeData, side?: string) => {
+    const cx = node.x + node.width / 2;
+    const cy = node.y + node.height / 2;
+    if (side === "top") return [cx, node.y];
+    if (side === "bottom") return [cx, node.y + node.height];
+    if (side === "left") return [node.x, cy];
+    if (side === "right") return [node.x + node.width, cy];
+    return [cx, cy];
+  };
+  for (const edge of data.edges ?? []) {
+    const from = byId.get(edge.fromNode);
+    const to = byId.get(edge.toNode);
+    if (!from || !to) continue;
+    const [x1, y1] = anchor(from, edge.fromSide);
+    const [x2, y2] = anchor(to, edge.toSide);
+    const line = svg.createSvg("line", { attr: { x1, y1, x2, y2 } });
+    if (edge.color)
+      line.style.stroke = CANVAS_COLORS[edge.color] ?? edge.color;
+  }
+
+  // Groups first so they sit behind their contents
+  const ordered = [...nodes].sort(
+    (a, b) => Number(b.type === "group") - Number(a.type === "group")
+  );
+  for (const node of ordered) {
+    const rect = svg.createSvg("rect", {
+      cls: `hblocks-canvas-${node.type}`,
+      attr: {
+        x: node.x,
+        y: node.y,
+        width: node.width,
+        height: node.height,
+        rx: 8,
+      },
+    });
+    if (node.color)
+      rect.style.stroke = CANVAS_COLORS[node.color] ?? node.color;
+
+    const label =
+      node.type === "text"
+        ? node.text
+        : node.type === "file"
+        ? node.file.split("/").pop() ?? node.file
+        : node.type === "link"
+        ? node.url
+        : node.label ?? "";
+    const maxChars = Math.floor(node.width / 12);
+    if (node.type === "group") {
+      addSvgLabel(svg, label, node.x, node.y - 8, maxChars);
+    } else {
+      const text = label.replace(/^#+\s*/, "");
+      addSvgLabel(svg, text, node.x + 12, node.y + 32, maxChars);
     }
-    return true;
   }
+};
 
-  private swapLineDown(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    if (cursor.line < editor.lastLine()) {
-      const currentLine = editor.getLine(cursor.line);
-      const nextLine = editor.getLine(cursor.line + 1);
-      editor.transaction({
-        changes: [
-          {
-            from: { line: cursor.line, ch: 0 },
-            to: { line: cursor.line, ch: currentLine.length },
-            text: nextLine,
+interface ExcalidrawElement {
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle?: number;
+  points?: [number, number][];
+  text?: string;
+  fontSize?: number;
+  lineHeight?: number; // multiple of fontSize
+  strokeColor?: string;
+  backgroundColor?: string;
+  isDeleted?: boolean;
+}
+
+/**
+ * The scene of an `.excalidraw` file, or of a drawing the Excalidraw plugin
+ * saved as a note, where it sits in a `json` fence under `# Drawing`. Null
+ * when the note only has the compressed form, which can't be read here.
+ */
+function parseExcalidrawScene(
+  text: string
+): { elements?: ExcalidrawElement[] } | null {
+  if (text.trim() === "") return {};
+  if (text.trimStart().startsWith("{")) return JSON.parse(text);
+  const drawing = text.match(/^#+ Drawing\s*\n+```json\r?\n([\s\S]*?)\n```/m);
+  return drawing ? JSON.parse(drawing[1]) : null;
+}
+
+/**
+ * Outline rendering of an `.excalidraw` drawing, or an Excalidraw note,
+ * fitted into the column.
+ */
+const renderExcalidrawEmbed: EmbedHandler = async (
+  app,
+  containerEl,
+  embed
+) => {
+  const data = parseExcalidrawScene(await app.vault.cachedRead(embed.file));
+  if (!data) {
+    containerEl.createDiv({
+      cls: "hblocks-embed-empty",
+      text: "Compressed drawing: click to open it in Excalidraw.",
+    });
+    openEmbedOnClick(app, containerEl, embed);
+    return;
+  }
+  const elements: ExcalidrawElement[] = (data.elements ?? []).filter(
+    (element: ExcalidrawElement) => !element.isDeleted
+  );
+  if (elements.length === 0) {
+    containerEl.createDiv({
+      cls: "hblocks-embed-empty",
+      text: "Empty drawing",
+    });
+    return;
+  }
+
+  const boxes = elements.map((element) => ({
+    x: Math.min(element.x, element.x + element.width),
+    y: Math.min(element.y, element.y + element.height),
+    width: Math.abs(element.width),
+    height: Math.abs(element.height),
+  }));
+  const svg = createFittedSvg(containerEl, embed, boundsOf(boxes));
+  svg.addClass("hblocks-embed-excalidraw");
+  openEmbedOnClick(app, containerEl, embed);
+
+  for (const element of elements) {
+    const { x, y, width, height } = element;
+    let shape: SVGElement;
+    switch (element.type) {
+      case "rectangle":
+        shape = svg.createSvg("rect", {
+          attr: { x, y, width, height, rx: 4 },
+        });
+        break;
+      case "ellipse":
+        shape = svg.createSvg("ellipse", {
+          attr: {
+            cx: x + width / 2,
+            cy: y + height / 2,
+            rx: width / 2,
+            ry: height / 2,
           },
-          {
-            from: { line: cursor.line + 1, ch: 0 },
-            to: { line: cursor.line + 1, ch: nextLine.length },
-            text: currentLine,
+        });
+        break;
+      case "diamond":
+        shape = svg.createSvg("polygon", {
+          attr: {
+            points: `${x + width / 2},${y} ${x + width},${y + height / 2} ${
+              x + width / 2
+            },${y + height} ${x},${y + height / 2}`,
           },
-        ],
-        selection: { from: { line: cursor.line + 1, ch: cursor.ch } },
-      });
+        });
+        break;
+      case "line":
+      case "arrow":
+      case "freedraw":
+        shape = svg.createSvg("polyline", {
+          attr: {
+            points: (element.points ?? [])
+              .map(([px, py]) => `${x + px},${y + py}`)
+              .join(" "),
+          },
+        });
+        break;
+      case "text": {
+        const fontSize = element.fontSize ?? 20;
+        const lineHeight = fontSize * (element.lineHeight ?? 1.25);
+        const text = svg.createSvg("text", {
+          attr: { x, y: y + fontSize, "font-size": fontSize },
+        });
+        // SVG text doesn't break lines, so each line gets its own tspan.
+        // An empty tspan would drop its offset, so blank lines keep a space.
+        (element.text ?? "").split("\n").forEach((line, i) => {
+          text
+            .createSvg("tspan", { attr: { x, dy: i === 0 ? 0 : lineHeight } })
+            .setText(line || "\u00a0");
+        });
+        shape = text;
+        break;
+      }
+      default:
+        continue;
     }
-    return true;
-  }
 
-  private duplicateLine(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const cursor = editor.getCursor();
-    const line = editor.getLine(cursor.line);
-    editor.replaceRange(`\n${line}`, { line: cursor.line, ch: line.length });
-    return true;
+    const { strokeColor, backgroundColor, angle } = element;
+    if (element.type === "text") {
+      // Excalidraw colors text with its stroke color
+      if (strokeColor) shape.style.fill = strokeColor;
+    } else {
+      if (strokeColor) shape.style.stroke = strokeColor;
+      if (backgroundColor && backgroundColor !== "transparent")
+        shape.style.fill = backgroundColor;
+    }
+    if (angle) {
+      const degrees = (angle * 180) / Math.PI;
+      shape.setAttribute(
+        "transform",
+        `rotate(${degrees} ${x + width / 2} ${y + height / 2})`
+      );
+    }
   }
+};
 
-  private deleteLine(embed: EditableEmbedChild): boolean {
-    const editor = embed.getEditor();
-    if (!editor) return false;
-    const { line } = editor.getCursor();
-    editor.replaceRange("", { line, ch: 0 }, { line: line + 1, ch: 0 });
-    return true;
-  }
+interface RendererOptions {
+  // Column whose source is being edited below the block (Live Preview)
+  activeColumn?: number;
+  // Called when a column is clicked, to move the cursor into it
+  onColumnSelect?: (index: number) => void;
+  // Applies rewrites of the block through the open editor instead of the
+  // file, so they don't race unsaved text (Live Preview)
+  replaceSource?: (
+    info: MarkdownSectionInformation | null,
+    expected: string,
+    replacement: string
+  ) => boolean;
 }
 
 class HorizontalBlockRenderer extends MarkdownRenderChild {
   private plugin: HorizontalBlocksPlugin;
   private source: string;
   private sourcePath: string;
+  private getSectionInfo: () => MarkdownSectionInformation | null;
+  private options: RendererOptions;
+  private header!: ParsedBlockHeader;
+  private blockId = "";
+  private pendingHeader: BlockOptions | null = null;
+  private snapGuide: HTMLElement | null = null;
+  private columnEditor: ColumnEditorChild | null = null;
+  private pendingHeaderInfo: MarkdownSectionInformation | null = null;
+  private debouncedHeaderWrite = debounce(() => this.writeHeader(), 750, true);
+  // Writing the header re-renders the block and drops focus, so while a
+  // divider is resized with the keyboard the write waits for its blur
+  private holdHeaderWrite = false;
 
   constructor(
     containerEl: HTMLElement,
     plugin: HorizontalBlocksPlugin,
     source: string,
-    sourcePath: string
+    sourcePath: string,
+    getSectionInfo: () => MarkdownSectionInformation | null,
+    options: RendererOptions = {}
   ) {
     super(containerEl);
     this.plugin = plugin;
     this.source = source;
     this.sourcePath = sourcePath;
+    this.getSectionInfo = getSectionInfo;
+    this.options = options;
   }
 
   async onload() {
     const container = this.containerEl;
     container.className = "horizontal-block-container";
 
-    const blockId = await this.plugin.hashString(this.source);
-    const savedLayout =
-      this.plugin.settings[`horizontal-block-layout-${blockId}`] || {};
+    this.header = parseBlockHeader(this.source);
+    const { options } = this.header;
+    const blockId = await this.plugin.resolveBlockId(
+      this.source,
+      this.sourcePath,
+      this.getLocation()
+    );
+    this.blockId = blockId;
+    const savedLayout = this.plugin.getLayout(blockId);
+
+    // Inline header options take precedence over stored plugin data
+    if (options.gap !== undefined) {
+      container.style.setProperty(
+        "--hblock-gap-size",
+        `${Math.max(0, options.gap)}px`
+      );
+    }
+    if (options.stack !== undefined) {
+      container.setAttribute("data-hblocks-stack", String(options.stack));
+    }
+    if (options.borders !== undefined) {
+      container.classList.add(
+        options.borders ? "hblocks-borders-on" : "hblocks-borders-off"
+      );
+    }
 
-    const sections = this.source.split(/^---$/m).map((part) => part.trim());
+    const columns = splitColumns(this.header.body);
     const blocks: HTMLElement[] = [];
 
-    for (let index = 0; index < sections.length; index++) {
-      const markdown = sections[index];
-      const block = await this.createRenderedBlock(
-        markdown,
-        savedLayout[`title-${index}`]
-      );
-      const savedWidth = savedLayout[`width-${index}`];
+    for (let index = 0; index < columns.length; index++) {
+      const isActive = index === this.options.activeColumn;
+      const markdown = isActive ? "" : columns[index].markdown;
+      const title = options.titles
+        ? options.titles[index]
+        : savedLayout[`title-${index}`];
+      const block = await this.createRenderedBlock(markdown, title || undefined);
+      if (isActive) {
+        block.classList.add("hblocks-active-column");
+        block
+          .querySelector(".hblocks-md-preview")
+          ?.createDiv({
+            cls: "hblocks-editing-placeholder",
+            text: "Editing below",
+          });
+      }
+      if (this.options.onColumnSelect) {
+        const select = this.options.onColumnSelect;
+        this.registerDomEvent(block, "click", (evt: MouseEvent) => {
+          const target = evt.target as HTMLElement | null;
+          if (target?.closest("a, input, button, .hblocks-toolbar")) return;
+          select(index);
+        });
+      }
+      block.setAttribute("role", "region");
+      block.setAttribute("aria-label", title || `Column ${index + 1}`);
+      this.attachTaskToggles(block, index);
+      this.attachColumnEditing(block, index);
+      this.applyColumnWidth(
+        block,
+        options.widths ? options.widths[index] : savedLayout[`width-${index}`]
+      );
+
+      // Apply per-block color overrides if any
+      const savedBg = options.bg ? options.bg[index] : savedLayout[`bg-${index}`];
+      if (savedBg)
+        (block as HTMLElement).style.setProperty("--hblock-block-bg", savedBg);
+      const savedFg = options.fg ? options.fg[index] : savedLayout[`fg-${index}`];
+      if (savedFg)
+        (block as HTMLElement).style.setProperty(
+          "--hblock-text-color",
+          savedFg
+        );
+
+      blocks.push(block);
+    }
+
+    if (!options.widths) {
+      const pixelWidths = blocks
+        .map((_, index) => index)
+        .filter((index) => savedLayout[`width-${index}`] > 1);
+      if (pixelWidths.length > 0)
+        this.migratePixelWidths(blockId, blocks, pixelWidths);
+    }
+
+    // Append blocks and resizers
+    for (let i = 0; i < blocks.length; i++) {
+      container.appendChild(blocks[i]);
+      // Attach context menu on right-click for visibility toggles
+      this.attachContextMenu(blocks[i], blocks);
+      if (i < blocks.length - 1) {
+        const resizer = document.createElement("div");
+        resizer.className = "hblocks-resizer";
+        resizer.tabIndex = 0;
+        resizer.setAttribute("role", "separator");
+        resizer.setAttribute("aria-orientation", "vertical");
+        resizer.setAttribute(
+          "aria-label",
+          `Resize ${blocks[i].getAttribute("aria-label")}`
+        );
+        container.appendChild(resizer);
+        this.makeResizable(blocks[i], blocks[i + 1], resizer, blockId, i);
+      }
+    }
+
+    // Add per-block toolbars
+    for (let i = 0; i < blocks.length; i++) {
+      this.attachToolbar(container, blocks, blockId, i);
+    }
+
+    // Stack columns when the block itself (not the window) gets narrow
+    const observer = new ResizeObserver(() => {
+      this.plugin.updateStacking(container);
+      this.updateSeparatorValues();
+    });
+    observer.observe(container);
+    this.register(() => observer.disconnect());
+  }
+
+  /**
+   * Applies a width from the header (`30%`, `2fr`, `240px`, `auto`) or from
+   * plugin data (a share of the container, or px from older versions).
+   * Columns without a width share the free space.
+   */
+  private applyColumnWidth(
+    block: HTMLElement,
+    width: string | number | undefined
+  ) {
+    const value = typeof width === "string" ? width.trim() : width;
+    const fr = typeof value === "string" ? value.match(/^(\d*\.?\d+)fr$/) : null;
+    const length =
+      typeof value === "number"
+        ? value
+        : value && /^\d*\.?\d+(%|px)?$/.test(value)
+        ? /\d$/.test(value)
+          ? parseFloat(value)
+          : value
+        : null;
+
+    if (length) {
+      block.classList.add("hblocks-flex-fixed");
+      // Stored widths up to 1 are shares of the container
+      this.plugin.applyBlockWidth(
+        block,
+        typeof value === "number" && value <= 1
+          ? formatWidthRatio(value)
+          : length
+      );
+      return;
+    }
+    block.classList.add("hblocks-flex-grow");
+    if (fr) block.style.setProperty("--hblocks-grow", fr[1]);
+  }
+
+  /**
+   * Saves a column width as a share of the container so the layout scales
+   * with the pane, and re-applies it as a percentage. Blocks with an inline
+   * header get the width written back into the header; others keep it in
+   * plugin data. `releasedIndex` is a neighbour that went back to auto width.
+   */
+  private async persistWidth(
+    block: HTMLElement,
+    blockId: string,
+    index: number,
+    width: number,
+    releasedIndex?: number
+  ) {
+    const containerWidth = this.containerEl.getBoundingClientRect().width;
+    if (!containerWidth) return;
+    const ratio = Math.min(1, width / containerWidth);
+    this.plugin.applyBlockWidth(block, formatWidthRatio(ratio));
+
+    if (this.header.headerLineCount === 0) {
+      await this.plugin.updateLayout(
+        blockId,
+        `width-${index}`,
+        Math.round(ratio * 10000) / 10000
+      );
+      return;
+    }
+    this.queueHeaderValue("widths", index, formatWidthRatio(ratio));
+    if (releasedIndex !== undefined) {
+      this.queueHeaderValue("widths", releasedIndex, "auto");
+    }
+  }
+
+  /**
+   * Older versions saved widths in pixels. Once the block has been laid out,
+   * convert them to shares of the container width.
+   */
+  private migratePixelWidths(
+    blockId: string,
+    blocks: HTMLElement[],
+    indices: number[]
+  ) {
+    window.requestAnimationFrame(async () => {
+      const containerWidth = this.containerEl.getBoundingClientRect().width;
+      if (!containerWidth) return;
+      const layout = this.plugin.getLayout(blockId);
+      for (const index of indices) {
+        const ratio = Math.min(1, layout[`width-${index}`] / containerWidth);
+        layout[`width-${index}`] = Math.round(ratio * 10000) / 10000;
+        this.plugin.applyBlockWidth(blocks[index], formatWidthRatio(ratio));
+      }
+      await this.plugin.saveData(this.plugin.settings);
+    });
+  }
+
+  /**
+   * Snaps a dragged width to the nearest common fraction of the block when
+   * it is close enough, showing a guide line at the snap point.
+   */
+  private snapWidth(left: HTMLElement, width: number): number {
+    const containerWidth = this.containerEl.getBoundingClientRect().width;
+    const snap = SNAP_RATIOS.find(
+      ({ ratio }) => Math.abs(width - ratio * containerWidth) <= SNAP_DISTANCE
+    );
+
+    const guide = (this.snapGuide ||= this.containerEl.createDiv({
+      cls: "hblocks-snap-guide",
+    }));
+    if (!snap) {
+      guide.classList.remove("is-visible");
+      return width;
+    }
+
+    const snapped = snap.ratio * containerWidth;
+    guide.style.setProperty(
+      "--hblocks-snap-x",
+      `${left.offsetLeft + snapped}px`
+    );
+    guide.setAttribute("data-label", snap.label);
+    guide.classList.add("is-visible");
+    return snapped;
+  }
+
+  /** Puts a column back to sharing the free space and forgets its width. */
+  private async resetWidth(block: HTMLElement, blockId: string, index: number) {
+    block.classList.remove("hblocks-flex-fixed");
+    block.classList.add("hblocks-flex-grow");
+    this.plugin.removeBlockWidth(block);
+
+    if (this.header.headerLineCount === 0) {
+      await this.plugin.removeLayoutValues(blockId, [`width-${index}`]);
+      return;
+    }
+    this.queueHeaderValue("widths", index, "auto");
+  }
+
+  /** Clears every saved width of the block so all columns share evenly. */
+  private async resetAllWidths(blocks: HTMLElement[]) {
+    for (const block of blocks) {
+      block.classList.remove("hblocks-flex-fixed");
+      block.classList.add("hblocks-flex-grow");
+      this.plugin.removeBlockWidth(block);
+    }
+    this.updateSeparatorValues();
+
+    if (this.header.headerLineCount === 0) {
+      const layout = this.plugin.getLayout(this.blockId);
+      await this.plugin.removeLayoutValues(
+        this.blockId,
+        Object.keys(layout).filter((prop) => prop.startsWith("width-"))
+      );
+      return;
+    }
+    this.pendingHeaderInfo ||= this.getSectionInfo();
+    this.pendingHeader = { ...(this.pendingHeader ?? this.header.options) };
+    delete this.pendingHeader.widths;
+    this.requestHeaderWrite();
+  }
+
+  /**
+   * Keeps each divider's ARIA value in step with the width of the column to
+   * its left, as a percentage of the block.
+   */
+  private updateSeparatorValues() {
+    const containerWidth = this.containerEl.getBoundingClientRect().width;
+    if (!containerWidth) return;
+    const toPercent = (px: number) =>
+      String(Math.round((px / containerWidth) * 100));
+
+    this.containerEl
+      .querySelectorAll<HTMLElement>(":scope > .hblocks-resizer")
+      .forEach((resizer) => {
+        const left = resizer.previousElementSibling as HTMLElement | null;
+        if (!left) return;
+        resizer.setAttribute(
+          "aria-valuenow",
+          toPercent(left.getBoundingClientRect().width)
+        );
+        resizer.setAttribute("aria-valuemin", toPercent(MIN_COLUMN_WIDTH));
+        resizer.setAttribute(
+          "aria-valuemax",
+          toPercent(containerWidth - MIN_COLUMN_WIDTH)
+        );
+      });
+  }
+
+  private async persistColor(
+    blockId: string,
+    prop: "bg" | "fg",
+    index: number,
+    value: string
+  ) {
+    if (this.header.headerLineCount === 0) {
+      await this.plugin.updateLayout(blockId, `${prop}-${index}`, value);
+      return;
+    }
+    this.queueHeaderValue(prop, index, value);
+  }
+
+  private queueHeaderValue(
+    key: "widths" | "bg" | "fg",
+    index: number,
+    value: string
+  ) {
+    // Capture the position now; the block may be re-rendered before saving
+    this.pendingHeaderInfo ||= this.getSectionInfo();
+    const options = (this.pendingHeader ||= {
+      ...this.header.options,
+    });
+    const columnCount = this.containerEl.querySelectorAll(
+      ":scope > .hblocks-resizable"
+    ).length;
+    const list = [...(options[key] ?? [])];
+    while (list.length < Math.max(columnCount, index + 1)) {
+      list.push(key === "widths" ? "auto" : "");
+    }
+    list[index] = value;
+    options[key] = list;
+    this.requestHeaderWrite();
+  }
+
+  private requestHeaderWrite() {
+    if (!this.holdHeaderWrite) this.debouncedHeaderWrite();
+  }
+
+  /** Writes header changes held back during keyboard resizing. */
+  private releaseHeaderWrite() {
+    if (!this.holdHeaderWrite) return;
+    this.holdHeaderWrite = false;
+    if (this.pendingHeader) void this.writeHeader();
+  }
+
+  onunload() {
+    this.releaseHeaderWrite();
+  }
+
+  private async writeHeader() {
+    const options = this.pendingHeader;
+    const info =
+      this.pendingHeaderInfo ?? this.getSectionInfo();
+    this.pendingHeader = null;
+    this.pendingHeaderInfo = null;
+    if (!options) return;
+
+    const bodyLines =
+      this.header.body.length > 0 ? this.header.body.split("\n") : [];
+    const written = await this.replaceSource(
+      info,
+      this.source,
+      [...serializeBlockHeader(options), ...bodyLines].join("\n")
+    );
+    if (!written) {
+      new Notice("Horizontal Blocks: could not update the block header.");
+    }
+  }
+
+  /**
+   * Moves the stored layout of a block into an inline header so it travels
+   * with the note.
+   */
+  private async storeLayoutInHeader(blocks: HTMLElement[]) {
+    const savedLayout = this.plugin.getLayout(this.blockId);
+    const containerWidth = this.containerEl.getBoundingClientRect().width;
+    const options: BlockOptions = { ...this.header.options };
+    const column = (prop: string) =>
+      blocks.map((_, index) => savedLayout[`${prop}-${index}`] ?? "");
+
+    options.widths = blocks.map((block) => {
+      if (!block.classList.contains("hblocks-has-width") || !containerWidth)
+        return "auto";
+      const width = block.getBoundingClientRect().width;
+      return formatWidthRatio(width / containerWidth);
+    });
+    if (column("title").some(Boolean)) options.titles = column("title");
+    if (column("bg").some(Boolean)) options.bg = column("bg");
+    if (column("fg").some(Boolean)) options.fg = column("fg");
+
+    this.pendingHeader = options;
+    await this.writeHeader();
+    await this.plugin.deleteLayouts([`${LAYOUT_KEY_PREFIX}${this.blockId}`]);
+  }
+
+  /**
+   * Task checkboxes in a column are rendered from code block text, so clicks
+   * are written back to the matching line of the fence in the note.
+   */
+  private attachTaskToggles(block: HTMLElement, index: number) {
+    const preview = block.querySelector<HTMLElement>(".hblocks-md-preview");
+    if (!preview) return;
+
+    this.registerDomEvent(preview, "click", async (evt: MouseEvent) => {
+      const checkbox = evt.target as HTMLElement | null;
+      if (
+        !(checkbox instanceof HTMLInputElement) ||
+        !checkbox.classList.contains("task-list-item-checkbox") ||
+        checkbox.closest(".hblocks-md-preview") !== preview ||
+        checkbox.closest(".horizontal-blocks-embed-container")
+      ) {
+        return;
+      }
+
+      // The source may have changed since rendering (Live Preview)
+      const column = splitColumns(this.header.body)[index];
+      if (!column) return;
+      const item = checkbox.closest<HTMLElement>(".task-list-item");
+      const status = item?.getAttribute("data-task") ?? "";
+      const dataLine =
+        checkbox.getAttribute("data-line") ?? item?.getAttribute("data-line");
+      const line =
+        dataLine !== null && dataLine !== undefined
+          ? Number(dataLine)
+          : this.findTaskLine(column.markdown, preview, checkbox);
+
+      const toggled = await this.toggleTaskLine(column, line, status);
+      if (!toggled) {
+        checkbox.checked = !checkbox.checked;
+        new Notice("Horizontal Blocks: could not update this task.");
+      }
+    });
+  }
+
+  /** Double-clicking a column swaps its preview for an editor. */
+  private attachColumnEditing(block: HTMLElement, index: number) {
+    const preview = block.querySelector<HTMLElement>(".hblocks-md-preview");
+    if (!preview) return;
+
+    this.registerDomEvent(preview, "dblclick", (evt: MouseEvent) => {
+      const target = evt.target as HTMLElement | null;
+      if (
+        target?.closest(
+          "a, input, button, .internal-embed, .horizontal-blocks-embed-container"
+        )
+      ) {
+        return;
+      }
+      const column = splitColumns(this.header.body)[index];
+      if (!column) return;
+      evt.preventDefault();
+      this.editColumn(block, preview, column);
+    });
+  }
+
+  private editColumn(
+    block: HTMLElement,
+    preview: HTMLElement,
+    column: BlockColumn
+  ) {
+    if (this.columnEditor) return;
+    const file = this.plugin.app.vault.getAbstractFileByPath(this.sourcePath);
+    if (!(file instanceof TFile)) {
+      new Notice("Horizontal Blocks: this block can't be edited in place.");
+      return;
+    }
 
-      if (savedWidth) {
-        block.classList.add("hblocks-flex-fixed");
-        this.plugin.applyBlockWidth(block, savedWidth);
-      } else {
-        block.classList.add("hblocks-flex-grow");
+    // Edit the raw column lines so escapes like `\---` stay visible
+    const raw = this.header.body
+      .split("\n")
+      .slice(column.startLine, column.endLine)
+      .join("\n");
+
+    const host = document.createElement("div");
+    host.className = "horizontal-blocks-embed-container";
+    preview.after(host);
+    block.classList.add("hblocks-is-editing");
+
+    const editor = new ColumnEditorChild(
+      host,
+      this.plugin,
+      this.plugin.embedManager,
+      file,
+      raw,
+      async (markdown) => {
+        this.removeChild(editor);
+        host.remove();
+        block.classList.remove("hblocks-is-editing");
+        this.columnEditor = null;
+        if (markdown !== null && markdown !== raw) {
+          await this.saveColumn(column, markdown);
+        }
       }
+    );
+    this.columnEditor = editor;
+    this.addChild(editor);
+  }
 
-      // Apply per-block color overrides if any
-      const savedBg = savedLayout[`bg-${index}`];
-      if (savedBg)
-        (block as HTMLElement).style.setProperty("--hblock-block-bg", savedBg);
-      const savedFg = savedLayout[`fg-${index}`];
-      if (savedFg)
-        (block as HTMLElement).style.setProperty(
-          "--hblock-text-color",
-          savedFg
-        );
+  /** Splices edited column text back into the fence in the note. */
+  private async saveColumn(column: BlockColumn, markdown: string) {
+    const text = escapeColumnSeparators(markdown.trim());
+    const bodyLines = this.header.body.split("\n");
+    bodyLines.splice(
+      column.startLine,
+      column.endLine - column.startLine,
+      ...(text ? text.split("\n") : [])
+    );
+    const headerLines = this.source
+      .split("\n")
+      .slice(0, this.header.headerLineCount);
+
+    const written = await this.replaceSource(
+      this.getSectionInfo(),
+      this.source,
+      [...headerLines, ...bodyLines].join("\n")
+    );
+    if (!written) {
+      new Notice(
+        "Horizontal Blocks: the block changed while editing; column was not saved."
+      );
+    }
+  }
 
-      blocks.push(block);
+  /** Fallback when the renderer didn't tag tasks with their line number. */
+  private findTaskLine(
+    markdown: string,
+    preview: HTMLElement,
+    checkbox: HTMLElement
+  ): number {
+    const checkboxes = Array.from(
+      preview.querySelectorAll(".task-list-item-checkbox")
+    );
+    const ordinal = checkboxes.indexOf(checkbox);
+    let seen = 0;
+    const lines = markdown.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (TASK_LINE.test(lines[i]) && seen++ === ordinal) return i;
     }
+    return -1;
+  }
 
-    // Append blocks and resizers
-    for (let i = 0; i < blocks.length; i++) {
-      container.appendChild(blocks[i]);
-      // Attach context menu on right-click for visibility toggles
-      this.attachContextMenu(blocks[i]);
-      if (i < blocks.length - 1) {
-        const resizer = document.createElement("div");
-        resizer.className = "hblocks-resizer";
-        container.appendChild(resizer);
-        this.makeResizable(blocks[i], blocks[i + 1], resizer, blockId, i);
-      }
+  /**
+   * Flips the task on `line` of the column (relative to its markdown). Any
+   * checked status, including custom ones like `[/]` or `[-]`, unchecks;
+   * an unchecked task becomes `[x]`.
+   */
+  private async toggleTaskLine(
+    column: BlockColumn,
+    line: number,
+    expectedStatus: string
+  ): Promise<boolean> {
+    if (line < 0) return false;
+    const lines = this.source.split("\n");
+    const sourceLine = this.header.headerLineCount + column.startLine + line;
+    const match = lines[sourceLine]?.match(TASK_LINE);
+    if (!match || (expectedStatus && match[2] !== expectedStatus)) {
+      return false;
     }
+    const next = match[2] === " " ? "x" : " ";
+    lines[sourceLine] =
+      match[1] + next + lines[sourceLine].slice(match[1].length + 1);
+    return this.replaceSource(
+      this.getSectionInfo(),
+      this.source,
+      lines.join("\n")
+    );
+  }
 
-    // Add per-block toolbars
-    for (let i = 0; i < blocks.length; i++) {
-      this.attachToolbar(container, blocks, blockId, i);
+  /**
+   * Replaces the block's text if it still reads `expected`: through the
+   * editor in Live Preview, otherwise in the note file.
+   */
+  private async replaceSource(
+    info: MarkdownSectionInformation | null,
+    expected: string,
+    replacement: string
+  ): Promise<boolean> {
+    if (this.options.replaceSource) {
+      return this.options.replaceSource(info, expected, replacement);
     }
+    return this.plugin.replaceBlockSource(
+      this.sourcePath,
+      info,
+      expected,
+      replacement
+    );
+  }
+
+  /**
+   * Points the renderer at new block text that renders the same, e.g. after
+   * typing in the column edited below a Live Preview block. Writes and task
+   * toggles then use the current lines.
+   */
+  async updateSource(source: string) {
+    this.source = source;
+    this.header = parseBlockHeader(source);
+    this.blockId = await this.plugin.resolveBlockId(
+      source,
+      this.sourcePath,
+      this.getLocation()
+    );
+  }
+
+  /**
+   * Identifies the block by note path and its position among the note's
+   * horizontal blocks, so a layout can follow the block when its content
+   * (and therefore its hash) changes.
+   */
+  private getLocation(): BlockLocation | null {
+    const info = this.getSectionInfo();
+    if (!info) return null;
+    const ordinal = findHorizontalBlockFences(info.text).findIndex(
+      (fence) => fence.startLine === info.lineStart
+    );
+    if (ordinal < 0) return null;
+    return { key: `${this.sourcePath}#${ordinal}`, content: info.text };
   }
 
   async createRenderedBlock(
@@ -923,49 +2584,82 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
     );
 
     for (const embedEl of embedElements) {
-      if (
-        embedEl.classList.contains("image-embed") ||
-        embedEl.classList.contains("media-embed")
-      ) {
-        continue;
-      }
-
       const rawLink = embedEl.getAttribute("src");
       if (!rawLink) continue;
 
-      const [linkPath] = rawLink.split("|");
+      const [linkPath, alias] = rawLink.split("|");
       if (!linkPath) continue;
 
       const sectionIndex = linkPath.indexOf("#");
       const hasSection = sectionIndex >= 0;
-      const section =
-        hasSection && linkPath.slice(sectionIndex + 1).length > 0
-          ? linkPath.slice(sectionIndex + 1)
-          : null;
-      if (section && section.startsWith("^")) continue;
-
       const notePath = hasSection ? linkPath.slice(0, sectionIndex) : linkPath;
       const targetFile = this.plugin.app.metadataCache.getFirstLinkpathDest(
         notePath || this.sourcePath,
         this.sourcePath
       );
-      if (!targetFile || targetFile.extension !== "md") continue;
+      if (!targetFile) continue;
+
+      const handler = this.plugin.embedHandlerFor(targetFile);
+      if (handler) {
+        this.renderFileEmbed(embedEl, handler, {
+          file: targetFile,
+          subpath: hasSection ? linkPath.slice(sectionIndex) : "",
+          // Obsidian moves the alias out of src into alt
+          ...parseEmbedSize(alias ?? embedEl.getAttribute("alt") ?? ""),
+          sourcePath: this.sourcePath,
+        });
+        continue;
+      }
+
+      if (
+        targetFile.extension !== "md" ||
+        embedEl.classList.contains("image-embed") ||
+        embedEl.classList.contains("media-embed")
+      ) {
+        continue;
+      }
 
       const container = document.createElement("div");
       container.classList.add("horizontal-blocks-embed-container");
       embedEl.replaceWith(container);
-
-      const editableChild = new EditableEmbedChild(
-        container,
-        this.plugin,
-        this.plugin.embedManager,
-        this.sourcePath,
-        rawLink
+      container.appendChild(embedEl);
+
+      this.addChild(
+        new LazyEmbedChild(
+          container,
+          embedEl,
+          this.plugin,
+          this.sourcePath,
+          rawLink
+        )
       );
-      this.addChild(editableChild);
     }
   }
 
+  private renderFileEmbed(
+    embedEl: HTMLElement,
+    handler: EmbedHandler,
+    embed: FileEmbed
+  ) {
+    const container = createDiv("hblocks-file-embed");
+    container.addClass(`hblocks-file-embed-${embed.file.extension}`);
+    if (embed.width) {
+      container.style.setProperty("--hblocks-embed-width", `${embed.width}px`);
+    }
+    embedEl.replaceWith(container);
+
+    Promise.resolve(handler(this.plugin.app, container, embed, this)).catch(
+      (error) => {
+        console.error("Horizontal Blocks: failed to render embed", error);
+        container.empty();
+        container.createDiv({
+          cls: "horizontal-blocks-embed-error",
+          text: `Couldn't display ${embed.file.name}.`,
+        });
+      }
+    );
+  }
+
   makeResizable(
     left: HTMLElement,
     right: HTMLElement,
@@ -973,16 +2667,18 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
     blockId: string,
     index: number
   ) {
+    // Touch drags must move this far sideways before they count as a
+    // resize; vertical pans are left to the browser (touch-action: pan-y)
+    const TOUCH_SLOP = 6;
+
+    let pointerId: number | null = null;
     let isResizing = false;
     let startX = 0;
     let startLeftWidth = 0;
-    let mouseMoveListener: ((e: MouseEvent) => void) | null = null;
-    let mouseUpListener: ((e: MouseEvent) => void) | null = null;
 
-    const mouseDownHandler = (e: MouseEvent) => {
+    const startResize = (e: PointerEvent) => {
       isResizing = true;
-      startX = e.clientX;
-      startLeftWidth = left.getBoundingClientRect().width;
+      resizer.setPointerCapture(e.pointerId);
       document.body.classList.add("hblocks-resizing-cursor");
       document.body.classList.add("hblocks-drag-active");
 
@@ -991,50 +2687,126 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
       left.classList.remove("hblocks-flex-grow");
       right.classList.add("hblocks-flex-grow");
       right.classList.remove("hblocks-flex-fixed");
+    };
 
-      // Create fresh event handlers for this resize session
-      mouseMoveListener = (e: MouseEvent) => {
-        if (!isResizing) return;
-        const dx = e.clientX - startX;
-        const newLeftWidth = startLeftWidth + dx;
-        left.classList.add("hblocks-flex-fixed");
-        left.classList.remove("hblocks-flex-grow");
-        this.plugin.applyBlockWidth(left, newLeftWidth);
-
-        right.classList.add("hblocks-flex-grow");
-        right.classList.remove("hblocks-flex-fixed");
-        this.plugin.removeBlockWidth(right);
-      };
-
-      mouseUpListener = async () => {
-        isResizing = false;
-        document.body.classList.remove("hblocks-resizing-cursor");
-        document.body.classList.remove("hblocks-drag-active");
-
-        // Clean up event listeners
-        if (mouseMoveListener) {
-          document.removeEventListener("mousemove", mouseMoveListener);
-          mouseMoveListener = null;
-        }
-        if (mouseUpListener) {
-          document.removeEventListener("mouseup", mouseUpListener);
-          mouseUpListener = null;
-        }
+    const pointerDownHandler = (e: PointerEvent) => {
+      if (pointerId !== null || (e.pointerType === "mouse" && e.button !== 0))
+        return;
+      pointerId = e.pointerId;
+      startX = e.clientX;
+      startLeftWidth = left.getBoundingClientRect().width;
+      if (e.pointerType !== "touch") {
+        e.preventDefault();
+        startResize(e);
+      }
+    };
 
-        const finalWidth = left.getBoundingClientRect().width;
-        const layoutKey = `horizontal-block-layout-${blockId}`;
-        if (!this.plugin.settings[layoutKey])
-          this.plugin.settings[layoutKey] = {};
-        this.plugin.settings[layoutKey][`width-${index}`] = finalWidth;
-        await this.plugin.saveData(this.plugin.settings);
-      };
-
-      // Add event listeners
-      document.addEventListener("mousemove", mouseMoveListener);
-      document.addEventListener("mouseup", mouseUpListener);
+    const pointerMoveHandler = (e: PointerEvent) => {
+      if (e.pointerId !== pointerId) return;
+      const dx = e.clientX - startX;
+      if (!isResizing) {
+        if (Math.abs(dx) < TOUCH_SLOP) return;
+        startResize(e);
+      }
+      e.preventDefault();
+      const newLeftWidth = this.plugin.style.snapToRatios
+        ? this.snapWidth(left, startLeftWidth + dx)
+        : startLeftWidth + dx;
+      left.classList.add("hblocks-flex-fixed");
+      left.classList.remove("hblocks-flex-grow");
+      this.plugin.applyBlockWidth(left, newLeftWidth);
+
+      right.classList.add("hblocks-flex-grow");
+      right.classList.remove("hblocks-flex-fixed");
+      this.plugin.removeBlockWidth(right);
+    };
+
+    const pointerUpHandler = async (e: PointerEvent) => {
+      if (e.pointerId !== pointerId) return;
+      pointerId = null;
+      if (!isResizing) return;
+      isResizing = false;
+      if (resizer.hasPointerCapture(e.pointerId)) {
+        resizer.releasePointerCapture(e.pointerId);
+      }
+      document.body.classList.remove("hblocks-resizing-cursor");
+      document.body.classList.remove("hblocks-drag-active");
+      this.snapGuide?.classList.remove("is-visible");
+
+      const finalWidth = left.getBoundingClientRect().width;
+      await this.persistWidth(left, blockId, index, finalWidth, index + 1);
+      this.updateSeparatorValues();
+    };
+
+    // Double-click splits the space of both neighbours evenly
+    const dblClickHandler = async (e: MouseEvent) => {
+      e.preventDefault();
+      const leftWidth = left.getBoundingClientRect().width;
+      const rightWidth = right.getBoundingClientRect().width;
+      const half = (leftWidth + rightWidth) / 2;
+      for (const block of [left, right]) {
+        block.classList.add("hblocks-flex-fixed");
+        block.classList.remove("hblocks-flex-grow");
+        this.plugin.applyBlockWidth(block, half);
+      }
+      await this.persistWidth(left, blockId, index, half);
+      await this.persistWidth(right, blockId, index + 1, half);
+      this.updateSeparatorValues();
+    };
+
+    const keyDownHandler = async (e: KeyboardEvent) => {
+      const containerWidth = this.containerEl.getBoundingClientRect().width;
+      const maxWidth = Math.max(
+        MIN_COLUMN_WIDTH,
+        containerWidth -
+          MIN_COLUMN_WIDTH -
+          resizer.getBoundingClientRect().width
+      );
+      const current = left.getBoundingClientRect().width;
+      let next: number;
+      switch (e.key) {
+        case "ArrowLeft":
+          next = current - WIDTH_STEP;
+          break;
+        case "ArrowRight":
+          next = current + WIDTH_STEP;
+          break;
+        case "Home":
+          next = MIN_COLUMN_WIDTH;
+          break;
+        case "End":
+          next = maxWidth;
+          break;
+        case "Enter":
+          e.preventDefault();
+          this.holdHeaderWrite = true;
+          await this.resetWidth(left, blockId, index);
+          this.updateSeparatorValues();
+          return;
+        default:
+          return;
+      }
+      e.preventDefault();
+      this.holdHeaderWrite = true;
+
+      next = Math.min(maxWidth, Math.max(MIN_COLUMN_WIDTH, next));
+      left.classList.add("hblocks-flex-fixed");
+      left.classList.remove("hblocks-flex-grow");
+      right.classList.add("hblocks-flex-grow");
+      right.classList.remove("hblocks-flex-fixed");
+      this.plugin.removeBlockWidth(right);
+      this.plugin.applyBlockWidth(left, next);
+      await this.persistWidth(left, blockId, index, next, index + 1);
+      this.updateSeparatorValues();
     };
 
-    this.registerDomEvent(resizer, "mousedown", mouseDownHandler);
+    this.registerDomEvent(resizer, "keydown", keyDownHandler);
+    this.registerDomEvent(resizer, "blur", () => this.releaseHeaderWrite());
+    this.registerDomEvent(resizer, "dblclick", dblClickHandler);
+    this.registerDomEvent(resizer, "pointerdown", pointerDownHandler);
+    this.registerDomEvent(resizer, "pointermove", pointerMoveHandler);
+    this.registerDomEvent(resizer, "pointerup", pointerUpHandler);
+    this.registerDomEvent(resizer, "pointercancel", pointerUpHandler);
   }
 
   private attachToolbar(
@@ -1059,11 +2831,7 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
     bgPicker.addEventListener("input", async (e) => {
       const value = (e.target as HTMLInputElement).value;
       (block as HTMLElement).style.setProperty("--hblock-block-bg", value);
-      const layoutKey = `horizontal-block-layout-${blockId}`;
-      if (!this.plugin.settings[layoutKey])
-        this.plugin.settings[layoutKey] = {};
-      this.plugin.settings[layoutKey][`bg-${index}`] = value;
-      await this.plugin.saveData(this.plugin.settings);
+      await this.persistColor(blockId, "bg", index, value);
     });
 
     const fgPicker = document.createElement("input");
@@ -1077,11 +2845,7 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
     fgPicker.addEventListener("input", async (e) => {
       const value = (e.target as HTMLInputElement).value;
       (block as HTMLElement).style.setProperty("--hblock-text-color", value);
-      const layoutKey = `horizontal-block-layout-${blockId}`;
-      if (!this.plugin.settings[layoutKey])
-        this.plugin.settings[layoutKey] = {};
-      this.plugin.settings[layoutKey][`fg-${index}`] = value;
-      await this.plugin.saveData(this.plugin.settings);
+      await this.persistColor(blockId, "fg", index, value);
     });
 
     const makeAdjust = (delta: number, label: string) => {
@@ -1092,21 +2856,20 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
       btn.addEventListener("click", async (e) => {
         e.preventDefault();
         const rect = block.getBoundingClientRect();
-        const newWidth = Math.max(80, Math.round(rect.width + delta));
+        const newWidth = Math.max(
+          MIN_COLUMN_WIDTH,
+          Math.round(rect.width + delta)
+        );
         block.classList.add("hblocks-flex-fixed");
         block.classList.remove("hblocks-flex-grow");
         this.plugin.applyBlockWidth(block, newWidth);
-        const layoutKey = `horizontal-block-layout-${blockId}`;
-        if (!this.plugin.settings[layoutKey])
-          this.plugin.settings[layoutKey] = {};
-        this.plugin.settings[layoutKey][`width-${index}`] = newWidth;
-        await this.plugin.saveData(this.plugin.settings);
+        await this.persistWidth(block, blockId, index, newWidth);
       });
       return btn;
     };
 
-    const btnDec = makeAdjust(-32, "-");
-    const btnInc = makeAdjust(32, "+");
+    const btnDec = makeAdjust(-WIDTH_STEP, "-");
+    const btnInc = makeAdjust(WIDTH_STEP, "+");
 
     toolbar.appendChild(bgPicker);
     toolbar.appendChild(fgPicker);
@@ -1116,7 +2879,7 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
     block.appendChild(toolbar);
   }
 
-  private attachContextMenu(block: HTMLElement) {
+  private attachContextMenu(block: HTMLElement, blocks: HTMLElement[]) {
     this.registerDomEvent(block, "contextmenu", (evt: MouseEvent) => {
       evt.preventDefault();
       const menu = new Menu();
@@ -1155,8 +2918,438 @@ class HorizontalBlockRenderer extends MarkdownRenderChild {
           })
       );
 
-      menu.showAtPosition({ x: evt.pageX, y: evt.pageY });
-    });
+      menu.addSeparator();
+      menu.addItem((item) =>
+        item
+          .setTitle("Reset all widths")
+          .setIcon("columns")
+          .onClick(() => this.resetAllWidths(blocks))
+      );
+
+      if (this.header.headerLineCount === 0) {
+        menu.addItem((item) =>
+          item
+            .setTitle("Store layout in block header")
+            .setIcon("file-input")
+            .onClick(() => this.storeLayoutInHeader(blocks))
+        );
+      }
+
+      menu.showAtPosition({ x: evt.pageX, y: evt.pageY });
+    });
+  }
+}
+
+/**
+ * Live Preview shows the raw source of a whole code block once the cursor
+ * enters it. While the cursor is inside a column of a horizontal block, this
+ * keeps the other columns rendered in a widget above it and hides their
+ * source, so only the column being edited is shown raw.
+ */
+class HorizontalBlockWidget extends WidgetType {
+  private plugin: HorizontalBlocksPlugin;
+  private source: string;
+  private sourcePath: string;
+  private ordinal: number; // position among the note's horizontal blocks
+  private activeColumn: number;
+  private maskedSource: string;
+
+  constructor(
+    plugin: HorizontalBlocksPlugin,
+    source: string,
+    sourcePath: string,
+    ordinal: number,
+    activeColumn: number
+  ) {
+    super();
+    this.plugin = plugin;
+    this.source = source;
+    this.sourcePath = sourcePath;
+    this.ordinal = ordinal;
+    this.activeColumn = activeColumn;
+
+    // Typing in the active column must not re-render the widget
+    const header = parseBlockHeader(source);
+    const column = splitColumns(header.body)[activeColumn];
+    const lines = source.split("\n");
+    const offset = header.headerLineCount;
+    lines.splice(offset + column.rawStart, column.rawEnd - column.rawStart);
+    this.maskedSource = lines.join("\n");
+  }
+
+  eq(other: HorizontalBlockWidget): boolean {
+    return this.rendersSameAs(other) && other.source === this.source;
+  }
+
+  private rendersSameAs(other: HorizontalBlockWidget): boolean {
+    return (
+      other.sourcePath === this.sourcePath &&
+      other.ordinal === this.ordinal &&
+      other.activeColumn === this.activeColumn &&
+      other.maskedSource === this.maskedSource
+    );
+  }
+
+  // Typing in the active column keeps the rendered DOM, but the renderer
+  // must see the new text or its writes go to stale lines
+  updateDOM(dom: HTMLElement): boolean {
+    const live = liveRenderers.get(dom);
+    if (!live || !live.widget.rendersSameAs(this)) return false;
+    live.widget = this;
+    void live.renderer.updateSource(this.source);
+    return true;
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const wrapper = document.createElement("div");
+    wrapper.className = "hblocks-live-preview-widget";
+    const container = wrapper.createDiv();
+
+    const getSectionInfo = (): MarkdownSectionInformation | null => {
+      const text = view.state.doc.toString();
+      const fence = findHorizontalBlockFences(text)[this.ordinal];
+      return fence
+        ? { text, lineStart: fence.startLine, lineEnd: fence.endLine }
+        : null;
+    };
+
+    const renderer = new HorizontalBlockRenderer(
+      container,
+      this.plugin,
+      this.source,
+      this.sourcePath,
+      getSectionInfo,
+      {
+        activeColumn: this.activeColumn,
+        onColumnSelect: (index) => {
+          const info = getSectionInfo();
+          if (!info) return;
+          const body = info.text
+            .split("\n")
+            .slice(info.lineStart + 1, info.lineEnd)
+            .join("\n");
+          const header = parseBlockHeader(body);
+          const column = splitColumns(header.body)[index];
+          if (!column) return;
+          const line = view.state.doc.line(
+            info.lineStart + 2 + header.headerLineCount + column.startLine
+          );
+          view.dispatch({ selection: { anchor: line.from } });
+          view.focus();
+        },
+        replaceSource: (info, expected, replacement) => {
+          // Doc lines are 1-based; the body sits between the fence lines
+          if (!info || info.lineEnd < info.lineStart + 2) return false;
+          const { doc } = view.state;
+          const from = doc.line(info.lineStart + 2).from;
+          const to = doc.line(info.lineEnd).to;
+          if (doc.sliceString(from, to) !== expected) return false;
+          view.dispatch({ changes: { from, to, insert: replacement } });
+          return true;
+        },
+      }
+    );
+    renderer.load();
+    liveRenderers.set(wrapper, { renderer, widget: this });
+    return wrapper;
+  }
+
+  destroy(dom: HTMLElement) {
+    liveRenderers.get(dom)?.renderer.unload();
+    liveRenderers.delete(dom);
+  }
+}
+
+const liveRenderers = new WeakMap<
+  HTMLElement,
+  { renderer: HorizontalBlockRenderer; widget: HorizontalBlockWidget }
+>();
+
+function createLivePreviewExtension(plugin: HorizontalBlocksPlugin): Extension {
+  // Scanning the note for fences is only redone when the document changes
+  let cachedDoc: Text | null = null;
+  let cachedFences: HorizontalBlockFence[] = [];
+
+  const build = (state: EditorState): DecorationSet => {
+    if (!state.field(editorLivePreviewField, false)) return Decoration.none;
+
+    if (state.doc !== cachedDoc) {
+      cachedDoc = state.doc;
+      cachedFences = findHorizontalBlockFences(state.doc.toString());
+    }
+
+    const sourcePath = state.field(editorInfoField, false)?.file?.path ?? "";
+    const cursorLine = state.doc.lineAt(state.selection.main.head).number - 1;
+    const decorations: Range<Decoration>[] = [];
+
+    cachedFences.forEach((fence, ordinal) => {
+      if (fence.nested) return;
+      if (cursorLine <= fence.startLine || cursorLine >= fence.endLine) return;
+
+      // Fence, header and separator lines are edited with the full source
+      const header = parseBlockHeader(fence.source);
+      const bodyStart = fence.startLine + 1 + header.headerLineCount;
+      if (cursorLine < bodyStart) return;
+      const columns = splitColumns(header.body);
+      const active = columns.findIndex(
+        (column) =>
+          cursorLine - bodyStart >= column.rawStart &&
+          cursorLine - bodyStart < column.rawEnd
+      );
+      if (active < 0) return;
+      const column = columns[active];
+
+      // Doc lines are 1-based; fence lines are 0-based
+      const widgetFrom = state.doc.line(fence.startLine + 1).from;
+      const widgetTo = state.doc.line(bodyStart + column.rawStart).to;
+      decorations.push(
+        Decoration.replace({
+          widget: new HorizontalBlockWidget(
+            plugin,
+            fence.source,
+            sourcePath,
+            ordinal,
+            active
+          ),
+          block: true,
+        }).range(widgetFrom, widgetTo)
+      );
+
+      const hiddenFrom = state.doc.line(bodyStart + column.rawEnd + 1).from;
+      const hiddenTo = state.doc.line(fence.endLine + 1).to;
+      decorations.push(
+        Decoration.replace({ block: true }).range(hiddenFrom, hiddenTo)
+      );
+    });
+
+    return Decoration.set(decorations, true);
+  };
+
+  return StateField.define<DecorationSet>({
+    create: build,
+    update(value, tr) {
+      const modeChanged =
+        tr.startState.field(editorLivePreviewField, false) !==
+        tr.state.field(editorLivePreviewField, false);
+      if (tr.docChanged || tr.selection || modeChanged) return build(tr.state);
+      return value;
+    },
+    provide: (field) => EditorView.decorations.from(field),
+  });
+}
+
+/**
+ * Vault-wide index of `extractBlockMetadata`, kept current from vault
+ * events. Triggers "changed" after each update.
+ */
+class BlockMetadataIndex extends Events {
+  private plugin: HorizontalBlocksPlugin;
+  private notes = new Map<string, NoteBlockMetadata>();
+
+  constructor(plugin: HorizontalBlocksPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  async build() {
+    this.notes.clear();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      await this.indexFile(file, false);
+    }
+    this.trigger("changed");
+  }
+
+  async indexFile(file: TAbstractFile, notify = true) {
+    if (!(file instanceof TFile) || file.extension !== "md") return;
+    const content = await this.plugin.app.vault.cachedRead(file);
+    const metadata = extractBlockMetadata(content);
+    if (
+      metadata.links.length ||
+      metadata.tags.length ||
+      metadata.headings.length
+    ) {
+      this.notes.set(file.path, metadata);
+    } else {
+      this.notes.delete(file.path);
+    }
+    if (notify) this.trigger("changed");
+  }
+
+  removeFile(path: string) {
+    if (this.notes.delete(path)) this.trigger("changed");
+  }
+
+  renameFile(file: TAbstractFile, oldPath: string) {
+    this.notes.delete(oldPath);
+    void this.indexFile(file);
+  }
+
+  getMetadata(path: string): NoteBlockMetadata | null {
+    return this.notes.get(path) ?? null;
+  }
+
+  /**
+   * Links inside horizontal blocks that resolve to `target`. Links are
+   * resolved on demand so renames elsewhere in the vault are picked up.
+   */
+  getBacklinks(target: TFile): { sourcePath: string; link: BlockLink }[] {
+    const results: { sourcePath: string; link: BlockLink }[] = [];
+    const { metadataCache } = this.plugin.app;
+    for (const [sourcePath, metadata] of this.notes) {
+      for (const link of metadata.links) {
+        const dest = link.linkpath
+          ? metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath)
+          : null;
+        if (dest?.path === target.path) results.push({ sourcePath, link });
+      }
+    }
+    return results;
+  }
+}
+
+const BACKLINKS_VIEW_TYPE = "horizontal-blocks-backlinks";
+const OUTLINE_VIEW_TYPE = "horizontal-blocks-outline";
+
+/** Base for side views that follow the active note and the block index. */
+abstract class BlockIndexView extends ItemView {
+  protected plugin: HorizontalBlocksPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: HorizontalBlocksPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  async onOpen() {
+    this.registerEvent(
+      this.plugin.app.workspace.on("file-open", () => this.render())
+    );
+    this.registerEvent(
+      this.plugin.blockIndex.on("changed", () => this.render())
+    );
+    this.render();
+  }
+
+  protected abstract render(): void;
+
+  protected openAtLine(path: string, line: number) {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+    void this.plugin.app.workspace
+      .getLeaf(false)
+      .openFile(file, { eState: { line } });
+  }
+
+  protected renderEmpty(text: string) {
+    this.contentEl.createDiv({ cls: "hblocks-index-empty", text });
+  }
+}
+
+class BlockBacklinksView extends BlockIndexView {
+  getViewType() {
+    return BACKLINKS_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Horizontal block backlinks";
+  }
+
+  getIcon() {
+    return "links-coming-in";
+  }
+
+  protected render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("hblocks-index-view");
+
+    const file = this.plugin.app.workspace.getActiveFile();
+    if (!file) {
+      this.renderEmpty("No active note.");
+      return;
+    }
+
+    const backlinks = this.plugin.blockIndex.getBacklinks(file);
+    if (backlinks.length === 0) {
+      this.renderEmpty(`No horizontal blocks link to ${file.basename}.`);
+      return;
+    }
+
+    const bySource = new Map<string, BlockLink[]>();
+    for (const { sourcePath, link } of backlinks) {
+      bySource.set(sourcePath, [...(bySource.get(sourcePath) ?? []), link]);
+    }
+
+    for (const [sourcePath, links] of bySource) {
+      const group = contentEl.createDiv({ cls: "hblocks-index-group" });
+      group.createDiv({ cls: "hblocks-index-group-title", text: sourcePath });
+      for (const link of links) {
+        const item = group.createDiv({ cls: "hblocks-index-item" });
+        item.setText(
+          `${link.embed ? "!" : ""}[[${link.linkpath}${link.subpath}]]`
+        );
+        item.addEventListener("click", () =>
+          this.openAtLine(sourcePath, link.line)
+        );
+      }
+    }
+  }
+}
+
+class BlockOutlineView extends BlockIndexView {
+  getViewType() {
+    return OUTLINE_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Horizontal block outline";
+  }
+
+  getIcon() {
+    return "list-tree";
+  }
+
+  protected render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("hblocks-index-view");
+
+    const file = this.plugin.app.workspace.getActiveFile();
+    const metadata = file
+      ? this.plugin.blockIndex.getMetadata(file.path)
+      : null;
+    if (!file || !metadata) {
+      this.renderEmpty("No headings or tags in horizontal blocks.");
+      return;
+    }
+
+    if (metadata.headings.length > 0) {
+      contentEl.createDiv({
+        cls: "hblocks-index-group-title",
+        text: "Headings",
+      });
+      for (const heading of metadata.headings) {
+        const item = contentEl.createDiv({
+          cls: "hblocks-index-item",
+          text: heading.heading,
+        });
+        item.style.setProperty("--hblocks-heading-level", `${heading.level}`);
+        item.addClass("hblocks-index-heading");
+        item.addEventListener("click", () =>
+          this.openAtLine(file.path, heading.line)
+        );
+      }
+    }
+
+    if (metadata.tags.length > 0) {
+      contentEl.createDiv({ cls: "hblocks-index-group-title", text: "Tags" });
+      const tags = contentEl.createDiv({ cls: "hblocks-index-tags" });
+      for (const tag of metadata.tags) {
+        const item = tags.createSpan({ cls: "tag", text: tag.tag });
+        item.addEventListener("click", () =>
+          this.openAtLine(file.path, tag.line)
+        );
+      }
+    }
   }
 }
 
@@ -1164,6 +3357,9 @@ export default class HorizontalBlocksPlugin extends Plugin {
   settings: Record<string, any> = {};
   private styleEl?: HTMLStyleElement;
   embedManager!: EditableEmbedManager;
+  blockIndex!: BlockMetadataIndex;
+  // Renderers for non-markdown embeds in columns, by file extension
+  embedHandlers = new Map<string, EmbedHandler>();
   style: StyleSettings = { ...DEFAULT_STYLE_SETTINGS };
 
   async onload() {
@@ -1176,17 +3372,28 @@ export default class HorizontalBlocksPlugin extends Plugin {
     };
 
     this.embedManager = new EditableEmbedManager(this);
+    this.blockIndex = new BlockMetadataIndex(this);
+
+    this.registerEmbedHandler(["pdf"], renderPdfEmbed);
+    this.registerEmbedHandler(["canvas"], renderCanvasEmbed);
+    this.registerEmbedHandler(["excalidraw"], renderExcalidrawEmbed);
+    this.registerEmbedHandler(AUDIO_EXTENSIONS, renderAudioEmbed);
 
     // Apply initial styling variables
     this.applyStylingVariables();
 
     // Register the processor function
-    const processor = async (source: string, el: HTMLElement, ctx: any) => {
+    const processor = async (
+      source: string,
+      el: HTMLElement,
+      ctx: MarkdownPostProcessorContext
+    ) => {
       const renderer = new HorizontalBlockRenderer(
         el,
         this,
         source,
-        ctx.sourcePath
+        ctx.sourcePath,
+        () => ctx.getSectionInfo(el)
       );
       ctx.addChild(renderer);
     };
@@ -1195,6 +3402,122 @@ export default class HorizontalBlocksPlugin extends Plugin {
     this.registerMarkdownCodeBlockProcessor("horizontal", processor);
     this.registerMarkdownCodeBlockProcessor("hblock", processor);
 
+    // Keep columns rendered in Live Preview while editing one of them
+    this.registerEditorExtension(createLivePreviewExtension(this));
+
+    // Block ids include the note path, so follow notes that move. Links
+    // inside blocks are code to Obsidian, so they are updated here too.
+    this.registerEvent(
+      this.app.vault.on("rename", async (file, oldPath) => {
+        await this.moveLayoutsForRename(file, oldPath);
+        await this.updateLinksForRename(file, oldPath);
+      })
+    );
+
+    // Editor commands for building and reshaping blocks
+    for (const count of [2, 3, 4]) {
+      this.addCommand({
+        id: `insert-horizontal-block-${count}`,
+        name: `Insert horizontal block with ${count} columns`,
+        editorCallback: (editor) => this.insertBlock(editor, count),
+      });
+    }
+    this.addCommand({
+      id: "wrap-selection-into-columns",
+      name: "Wrap selection into columns",
+      editorCheckCallback: (checking, editor) => {
+        if (!editor.somethingSelected()) return false;
+        if (!checking) this.wrapSelection(editor);
+        return true;
+      },
+    });
+    this.addCommand({
+      id: "unwrap-horizontal-block",
+      name: "Unwrap horizontal block",
+      editorCheckCallback: (checking, editor) => {
+        const line = editor.getCursor().line;
+        const found = findFenceAtLine(editor.getValue(), line);
+        if (!found) return false;
+        if (!checking) this.unwrapBlock(editor, found.fence);
+        return true;
+      },
+    });
+    for (const [id, name, delta] of [
+      ["add-column", "Add column", 1],
+      ["remove-column", "Remove column", -1],
+    ] as const) {
+      this.addCommand({
+        id,
+        name,
+        editorCheckCallback: (checking, editor, ctx) => {
+          const line = editor.getCursor().line;
+          if (!findFenceAtLine(editor.getValue(), line)) return false;
+          if (!checking) void this.changeColumns(editor, ctx.file, delta);
+          return true;
+        },
+      });
+    }
+
+    this.addCommand({
+      id: "clean-up-unused-layouts",
+      name: "Clean up unused layouts",
+      callback: async () => {
+        const report = await this.scanUnusedLayouts();
+        if (report.keys.length === 0) {
+          new Notice("Horizontal Blocks: no unused layouts found.");
+          return;
+        }
+        this.confirmLayoutCleanup(report);
+      },
+    });
+
+    // Only offers the cleanup; layouts are removed once it is confirmed
+    this.app.workspace.onLayoutReady(async () => {
+      if (!this.style.autoCleanupLayouts) return;
+      const report = await this.scanUnusedLayouts();
+      if (report.keys.length === 0) return;
+      this.confirmLayoutCleanup(report);
+    });
+
+    // Links, tags and headings inside blocks, for the side views
+    this.registerView(
+      BACKLINKS_VIEW_TYPE,
+      (leaf) => new BlockBacklinksView(leaf, this)
+    );
+    this.registerView(
+      OUTLINE_VIEW_TYPE,
+      (leaf) => new BlockOutlineView(leaf, this)
+    );
+    this.addCommand({
+      id: "open-block-backlinks",
+      name: "Open horizontal block backlinks",
+      callback: () => this.activateView(BACKLINKS_VIEW_TYPE),
+    });
+    this.addCommand({
+      id: "open-block-outline",
+      name: "Open horizontal block outline",
+      callback: () => this.activateView(OUTLINE_VIEW_TYPE),
+    });
+    this.app.workspace.onLayoutReady(async () => {
+      await this.blockIndex.build();
+      this.registerEvent(
+        this.app.vault.on("modify", (file) => this.blockIndex.indexFile(file))
+      );
+      this.registerEvent(
+        this.app.vault.on("create", (file) => this.blockIndex.indexFile(file))
+      );
+      this.registerEvent(
+        this.app.vault.on("delete", (file) =>
+          this.blockIndex.removeFile(file.path)
+        )
+      );
+      this.registerEvent(
+        this.app.vault.on("rename", (file, oldPath) =>
+          this.blockIndex.renameFile(file, oldPath)
+        )
+      );
+    });
+
     // Settings tab
     this.addSettingTab(new HBlockStylingSettingTab(this.app, this));
   }
@@ -1203,6 +3526,220 @@ export default class HorizontalBlocksPlugin extends Plugin {
     this.embedManager?.dispose();
   }
 
+  registerEmbedHandler(extensions: string[], handler: EmbedHandler) {
+    for (const extension of extensions) {
+      this.embedHandlers.set(extension.toLowerCase(), handler);
+    }
+  }
+
+  /**
+   * The embed handler for a file, by extension. Drawings the Excalidraw
+   * plugin saves as notes (`*.excalidraw.md`, or `excalidraw-plugin` in
+   * the frontmatter) use the `excalidraw` handler.
+   */
+  embedHandlerFor(file: TFile): EmbedHandler | undefined {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const isDrawing =
+      file.extension === "md" &&
+      (file.name.toLowerCase().endsWith(".excalidraw.md") ||
+        frontmatter?.["excalidraw-plugin"] !== undefined);
+    return this.embedHandlers.get(
+      isDrawing ? "excalidraw" : file.extension.toLowerCase()
+    );
+  }
+
+  /** Inserts an empty block with `count` columns at the cursor. */
+  private insertBlock(editor: Editor, count: number) {
+    const cursor = editor.getCursor();
+    const prefix = editor.getLine(cursor.line).trim() ? "\n\n" : "";
+    const body = Array.from({ length: count }, () => "").join("\n---\n");
+    editor.replaceSelection(`${prefix}\`\`\`hblock\n${body}\n\`\`\`\n`);
+    // Into the first column
+    const fenceLine = cursor.line + (prefix ? 2 : 0);
+    editor.setCursor({ line: fenceLine + 1, ch: 0 });
+  }
+
+  private wrapSelection(editor: Editor) {
+    const from = editor.getCursor("from");
+    const to = editor.getCursor("to");
+    // Whole lines, leaving out a last line the selection only touches
+    const lastLine = to.ch === 0 && to.line > from.line ? to.line - 1 : to.line;
+    const text = editor.getRange(
+      { line: from.line, ch: 0 },
+      { line: lastLine, ch: editor.getLine(lastLine).length }
+    );
+
+    const columns = splitIntoColumns(text).map(escapeColumnSeparators);
+    if (columns.length === 0) return;
+    const fence = fenceMarkerFor(text);
+    editor.replaceRange(
+      `${fence}hblock\n${columns.join("\n---\n")}\n${fence}`,
+      { line: from.line, ch: 0 },
+      { line: lastLine, ch: editor.getLine(lastLine).length }
+    );
+  }
+
+  /** Replaces the block with its columns' markdown, one after another. */
+  private unwrapBlock(editor: Editor, fence: HorizontalBlockFence) {
+    const { body } = parseBlockHeader(fence.source);
+    // Raw lines keep the first line's indentation, which `markdown` trims
+    const lines = body.split("\n");
+    const fenceMask = computeFenceMask(lines);
+    const markdown = splitColumns(body)
+      .filter((column) => column.startLine < column.endLine)
+      .map((column) =>
+        lines
+          .slice(column.startLine, column.endLine)
+          .map((line, i) =>
+            fenceMask[column.startLine + i] ? line : unescapeSeparator(line)
+          )
+          .join("\n")
+      )
+      .join("\n\n");
+    editor.replaceRange(
+      markdown,
+      { line: fence.startLine, ch: 0 },
+      { line: fence.endLine, ch: editor.getLine(fence.endLine).length }
+    );
+  }
+
+  /**
+   * Adds an empty column after the one at the cursor (`delta` 1), or
+   * removes the column at the cursor (`delta` -1). Per-column header lists
+   * and stored layout values move along with the columns.
+   */
+  private async changeColumns(
+    editor: Editor,
+    file: TFile | null,
+    delta: 1 | -1
+  ) {
+    const found = findFenceAtLine(editor.getValue(), editor.getCursor().line);
+    if (!found) return;
+
+    // Resolve the id before reading the block for the edit, so the offsets
+    // below match the editor text they replace
+    let blockId: string | null = null;
+    if (file) {
+      blockId = await this.resolveBlockId(found.fence.source, file.path, {
+        key: `${file.path}#${found.ordinal}`,
+        content: editor.getValue(),
+      });
+    }
+    const cursorLine = editor.getCursor().line;
+    const current = findFenceAtLine(editor.getValue(), cursorLine);
+    // The id belongs to the block as it was before the lookup
+    if (
+      !current ||
+      current.ordinal !== found.ordinal ||
+      current.fence.source !== found.fence.source
+    )
+      return;
+    const { fence } = current;
+
+    const { options, headerLineCount, body } = parseBlockHeader(fence.source);
+    const columns = splitColumns(body);
+    if (delta < 0 && columns.length < 2) {
+      new Notice("Horizontal Blocks: a block needs at least one column.");
+      return;
+    }
+
+    // Column at the cursor; the fence and header lines count as the first
+    // column, the closing fence as the last
+    const bodyStart = fence.startLine + 1 + headerLineCount;
+    const bodyLine = Math.min(cursorLine, fence.endLine - 1) - bodyStart;
+    let index = columns.findIndex((column) => bodyLine <= column.rawEnd);
+    if (index < 0 || cursorLine === fence.endLine) index = columns.length - 1;
+    if (bodyLine < 0) index = 0;
+
+    const lines = body.split("\n");
+    const separator = lines.some((line) => ALT_COLUMN_SEPARATOR.test(line))
+      ? "===col==="
+      : "---";
+    let cursorBodyLine: number;
+    if (delta > 0) {
+      const at = columns[index].rawEnd;
+      lines.splice(at, 0, separator, "");
+      cursorBodyLine = at + 1;
+    } else {
+      const column = columns[index];
+      // Take the separator before the column, or after it for the first
+      const start = index > 0 ? column.rawStart - 1 : column.rawStart;
+      const end = index > 0 ? column.rawEnd : column.rawEnd + 1;
+      lines.splice(start, end - start);
+      cursorBodyLine = Math.min(start, lines.length - 1);
+    }
+
+    let header = fence.source.split("\n").slice(0, headerLineCount);
+    let headerChanged = false;
+    for (const key of ["widths", "titles", "bg", "fg"] as const) {
+      const list = options[key];
+      if (!list) continue;
+      if (delta > 0 && index + 1 <= list.length) {
+        list.splice(index + 1, 0, key === "widths" ? "auto" : "");
+        headerChanged = true;
+      } else if (delta < 0 && index < list.length) {
+        list.splice(index, 1);
+        headerChanged = true;
+      }
+    }
+    if (headerChanged) header = serializeBlockHeader(options);
+
+    // Renumbered in memory before the edit re-renders the block
+    const shifted =
+      blockId !== null && this.shiftColumnLayout(blockId, index, delta);
+
+    const source = [...header, ...lines];
+    editor.replaceRange(
+      `\n${source.join("\n")}\n`,
+      { line: fence.startLine, ch: editor.getLine(fence.startLine).length },
+      { line: fence.endLine, ch: 0 }
+    );
+    editor.setCursor({
+      line: fence.startLine + 1 + header.length + cursorBodyLine,
+      ch: 0,
+    });
+    if (shifted) await this.saveData(this.settings);
+  }
+
+  /**
+   * Renumbers a block's stored per-column values after a column is
+   * inserted after `index` or removed at `index`. Returns whether there
+   * were any; the caller saves the settings.
+   */
+  private shiftColumnLayout(
+    blockId: string,
+    index: number,
+    delta: 1 | -1
+  ): boolean {
+    const layout = this.settings[`${LAYOUT_KEY_PREFIX}${blockId}`];
+    if (!layout) return false;
+
+    const shifted: Record<string, unknown> = {};
+    for (const [prop, value] of Object.entries(layout)) {
+      const match = prop.match(/^(width|bg|fg|title)-(\d+)$/);
+      if (!match) {
+        shifted[prop] = value;
+        continue;
+      }
+      const column = Number(match[2]);
+      if (delta < 0 && column === index) continue;
+      const moved = column > index ? column + delta : column;
+      shifted[`${match[1]}-${moved}`] = value;
+    }
+    this.settings[`${LAYOUT_KEY_PREFIX}${blockId}`] = shifted;
+    return true;
+  }
+
+  private async activateView(viewType: string) {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(viewType)[0];
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+      await leaf.setViewState({ type: viewType, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
+
   async hashString(str: string): Promise<string> {
     const buffer = new TextEncoder().encode(str);
     const digest = await crypto.subtle.digest("SHA-256", buffer);
@@ -1212,18 +3749,445 @@ export default class HorizontalBlocksPlugin extends Plugin {
       .slice(0, 16); // Shorten for key
   }
 
-  applyBlockWidth(block: HTMLElement, width: number) {
+  getLayout(blockId: string): Record<string, any> {
+    return this.settings[`${LAYOUT_KEY_PREFIX}${blockId}`] || {};
+  }
+
+  async updateLayout(blockId: string, prop: string, value: unknown) {
+    const layoutKey = `${LAYOUT_KEY_PREFIX}${blockId}`;
+    if (!this.settings[layoutKey]) this.settings[layoutKey] = {};
+    this.settings[layoutKey][prop] = value;
+    await this.saveData(this.settings);
+  }
+
+  /**
+   * Layout id for a block in a given note. An explicit `id:` wins over the
+   * content hash; both are scoped to the note so identical blocks in
+   * different notes keep separate layouts.
+   */
+  async computeBlockId(sourcePath: string, source: string): Promise<string> {
+    const { id } = parseBlockHeader(source).options;
+    return this.hashString(
+      id ? `${sourcePath}\nid:${id}` : `${sourcePath}\n${source}`
+    );
+  }
+
+  async removeLayoutValues(blockId: string, props: string[]) {
+    const layout = this.settings[`${LAYOUT_KEY_PREFIX}${blockId}`];
+    if (!layout) return;
+    for (const prop of props) delete layout[prop];
+    await this.saveData(this.settings);
+  }
+
+  /**
+   * Works out which stored layout a block uses. When the block at a known
+   * location has a new id (its content was edited), the layout stored under
+   * the previous id is moved to the new one instead of being left orphaned.
+   * A block inserted above another takes over its location, so the previous
+   * id is only followed once no block in the note has it any more.
+   */
+  async resolveBlockId(
+    source: string,
+    sourcePath: string,
+    location: BlockLocation | null
+  ): Promise<string> {
+    const blockId = await this.computeBlockId(sourcePath, source);
+    const targetKey = `${LAYOUT_KEY_PREFIX}${blockId}`;
+    const index: Record<string, string> = (this.settings[LOCATION_INDEX_KEY] ||=
+      {});
+    let changed = false;
+
+    if (!this.settings[targetKey]) {
+      // Prefer the layout last seen at this position, then the content hash
+      // (e.g. when an id is added to a block that already has a layout)
+      const contentId = await this.hashString(`${sourcePath}\n${source}`);
+      let previousId = location ? index[location.key] : null;
+      if (location && previousId) {
+        for (const fence of findHorizontalBlockFences(location.content)) {
+          const id = await this.computeBlockId(sourcePath, fence.source);
+          if (id === previousId) {
+            previousId = null;
+            break;
+          }
+        }
+      }
+      const candidates = [previousId, contentId];
+      for (const candidate of candidates) {
+        if (!candidate || candidate === blockId) continue;
+        const candidateKey = `${LAYOUT_KEY_PREFIX}${candidate}`;
+        if (this.settings[candidateKey]) {
+          this.settings[targetKey] = this.settings[candidateKey];
+          delete this.settings[candidateKey];
+          changed = true;
+          break;
+        }
+      }
+    }
+
+    if (!this.settings[targetKey]) {
+      // Layouts saved before ids were scoped per note may be shared by other
+      // notes, so copy rather than move them
+      const legacyKey = `${LAYOUT_KEY_PREFIX}${await this.hashString(source)}`;
+      if (this.settings[legacyKey]) {
+        this.settings[targetKey] = { ...this.settings[legacyKey] };
+        changed = true;
+      }
+    }
+
+    if (location && index[location.key] !== blockId) {
+      index[location.key] = blockId;
+      changed = true;
+    }
+
+    if (changed) await this.saveData(this.settings);
+    return blockId;
+  }
+
+  /**
+   * Re-keys the layouts of a renamed or moved note, since block ids include
+   * the note path.
+   */
+  private async moveLayoutsForRename(file: TAbstractFile, oldPath: string) {
+    if (!(file instanceof TFile) || file.extension !== "md") return;
+
+    const index: Record<string, string> = (this.settings[LOCATION_INDEX_KEY] ||=
+      {});
+    let changed = false;
+    for (const location of Object.keys(index)) {
+      if (location.startsWith(`${oldPath}#`)) {
+        delete index[location];
+        changed = true;
+      }
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    const fences = findHorizontalBlockFences(content);
+    for (let ordinal = 0; ordinal < fences.length; ordinal++) {
+      const { source } = fences[ordinal];
+      const oldId = await this.computeBlockId(oldPath, source);
+      const newId = await this.computeBlockId(file.path, source);
+      const oldKey = `${LAYOUT_KEY_PREFIX}${oldId}`;
+      const newKey = `${LAYOUT_KEY_PREFIX}${newId}`;
+      if (this.settings[oldKey] && !this.settings[newKey]) {
+        this.settings[newKey] = this.settings[oldKey];
+        delete this.settings[oldKey];
+      }
+      index[`${file.path}#${ordinal}`] = newId;
+      changed = true;
+    }
+
+    if (changed) await this.saveData(this.settings);
+  }
+
+  /**
+   * Rewrites wikilinks and embeds inside horizontal blocks that pointed at a
+   * renamed file, keeping `#section` and `|alias` suffixes.
+   */
+  private async updateLinksForRename(file: TAbstractFile, oldPath: string) {
+    if (!(file instanceof TFile)) return;
+    // Respect "Automatically update internal links" being turned off
+    if (getVaultConfig(this.app, "alwaysUpdateLinks") === false) return;
+
+    // Any link to the old file contains its old name
+    const oldName = (oldPath.split("/").pop() ?? oldPath).replace(
+      new RegExp(`\\.${file.extension}$`, "i"),
+      ""
+    );
+    const changedNotes = await this.rewriteLinksInBlocks(
+      (note) => (linkpath, subpath) => {
+        const next = this.renamedLinkText(linkpath, file, oldPath, note.path);
+        return next === null ? null : `${next}${subpath}`;
+      },
+      oldName
+    );
+
+    if (changedNotes.length === 0) return;
+    await this.saveData(this.settings);
+    new Notice(
+      `Horizontal Blocks: updated links in ${
+        changedNotes.length
+      } note(s): ${changedNotes.join(", ")}`
+    );
+  }
+
+  /**
+   * Rewrites wikilinks inside horizontal blocks across the vault, carrying
+   * layouts over to the new block text. Notes that don't contain `mention`
+   * (ignoring case) are skipped without being parsed. Returns the names of
+   * the notes that changed; the caller saves settings.
+   */
+  private async rewriteLinksInBlocks(
+    replacerFor: (
+      note: TFile
+    ) => (linkpath: string, subpath: string) => string | null,
+    mention = ""
+  ): Promise<string[]> {
+    const changedNotes: string[] = [];
+    const needle = mention.toLowerCase();
+    for (const note of this.app.vault.getMarkdownFiles()) {
+      const content = await this.app.vault.cachedRead(note);
+      if (!content.includes("[[")) continue;
+      if (needle && !content.toLowerCase().includes(needle)) continue;
+
+      const replaceLink = replacerFor(note);
+      if (rewriteBlockLinks(content, replaceLink) === content) continue;
+
+      const rewritten: { before: string; after: string }[] = [];
+      await this.app.vault.process(note, (current) => {
+        const updated = rewriteBlockLinks(current, replaceLink);
+        const before = findHorizontalBlockFences(current);
+        const after = findHorizontalBlockFences(updated);
+        before.forEach((fence, i) => {
+          if (after[i] && after[i].source !== fence.source)
+            rewritten.push({ before: fence.source, after: after[i].source });
+        });
+        return updated;
+      });
+      if (rewritten.length === 0) continue;
+
+      // Block ids hash the content, so carry layouts over to the new text
+      for (const { before, after } of rewritten) {
+        const oldKey = `${LAYOUT_KEY_PREFIX}${await this.computeBlockId(
+          note.path,
+          before
+        )}`;
+        const newKey = `${LAYOUT_KEY_PREFIX}${await this.computeBlockId(
+          note.path,
+          after
+        )}`;
+        if (this.settings[oldKey] && !this.settings[newKey]) {
+          this.settings[newKey] = this.settings[oldKey];
+          delete this.settings[oldKey];
+        }
+      }
+      changedNotes.push(note.basename);
+    }
+    return changedNotes;
+  }
+
+  /**
+   * Points links to a renamed heading of `file` at its new text, both
+   * inside horizontal blocks and in ordinary note text. `headings` are the
+   * file's headings before the rename and `line` the renamed one's line;
+   * a link is updated when its subpath resolved to that heading.
+   */
+  async updateLinksForHeadingRename(
+    file: TFile,
+    headings: BlockHeading[],
+    line: number,
+    heading: string
+  ) {
+    const renamedTarget = (
+      linkpath: string,
+      subpath: string,
+      note: TFile
+    ): string | null => {
+      if (!subpath.startsWith("#") || subpath.startsWith("#^")) return null;
+      const dest = linkpath
+        ? this.app.metadataCache.getFirstLinkpathDest(linkpath, note.path)
+        : note;
+      if (dest !== file) return null;
+      const section = subpath.slice(1);
+      const resolved = findHeadingSection(headings, section, Infinity);
+      if (resolved?.start !== line) return null;
+      return `${linkpath}#${renamedSubpath(section, heading)}`;
+    };
+
+    const changedNotes = await this.rewriteLinksInBlocks(
+      (note) => (linkpath, subpath) => renamedTarget(linkpath, subpath, note)
+    );
+
+    // Links outside blocks, located through the metadata cache
+    for (const note of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(note);
+      const edits = [...(cache?.links ?? []), ...(cache?.embeds ?? [])]
+        .map((link) => {
+          const hash = link.link.indexOf("#");
+          if (hash < 0 || !link.original.includes("[[")) return null;
+          const next = renamedTarget(
+            link.link.slice(0, hash),
+            link.link.slice(hash),
+            note
+          );
+          if (next === null) return null;
+          return {
+            from: link.position.start.offset,
+            to: link.position.end.offset,
+            original: link.original,
+            updated: link.original.replace(
+              /\[\[[^\]|]*/,
+              () => `[[${next}`
+            ),
+          };
+        })
+        .filter((edit): edit is NonNullable<typeof edit> => edit !== null)
+        .sort((a, b) => b.from - a.from);
+      if (edits.length === 0) continue;
+
+      let changed = false;
+      await this.app.vault.process(note, (content) => {
+        for (const edit of edits) {
+          // Skip links the cache placed wrongly, e.g. after a recent edit
+          if (content.slice(edit.from, edit.to) !== edit.original) continue;
+          content =
+            content.slice(0, edit.from) + edit.updated + content.slice(edit.to);
+          changed = true;
+        }
+        return content;
+      });
+      if (changed && !changedNotes.includes(note.basename)) {
+        changedNotes.push(note.basename);
+      }
+    }
+
+    if (changedNotes.length === 0) return;
+    await this.saveData(this.settings);
+    new Notice(
+      `Horizontal Blocks: updated links in ${
+        changedNotes.length
+      } note(s): ${changedNotes.join(", ")}`
+    );
+  }
+
+  /**
+   * New link text for `linkpath` if it referred to the renamed file and no
+   * longer resolves to anything, otherwise null.
+   */
+  private renamedLinkText(
+    linkpath: string,
+    file: TFile,
+    oldPath: string,
+    sourcePath: string
+  ): string | null {
+    const target = linkpath.trim().toLowerCase();
+    if (!target) return null;
+
+    const oldFull = oldPath.toLowerCase();
+    const oldNoExt =
+      file.extension === "md" ? oldFull.replace(/\.md$/, "") : oldFull;
+    const matches = [oldFull, oldNoExt].some(
+      (candidate) => candidate === target || candidate.endsWith(`/${target}`)
+    );
+    if (!matches) return null;
+    if (this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath))
+      return null;
+
+    return this.app.metadataCache.fileToLinktext(file, sourcePath, true);
+  }
+
+  /**
+   * Finds stored layouts that no block in the vault resolves to any more.
+   * Nothing is deleted here so callers can show a dry-run summary first.
+   */
+  async scanUnusedLayouts(): Promise<LayoutCleanupReport> {
+    const liveIds = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const content = await this.app.vault.cachedRead(file);
+      for (const { source } of findHorizontalBlockFences(content)) {
+        liveIds.add(await this.computeBlockId(file.path, source));
+        // Unscoped ids from older versions are still copied from on render
+        liveIds.add(await this.hashString(source));
+      }
+    }
+
+    const encoder = new TextEncoder();
+    const keys: string[] = [];
+    let bytes = 0;
+    for (const key of Object.keys(this.settings)) {
+      if (!key.startsWith(LAYOUT_KEY_PREFIX)) continue;
+      if (liveIds.has(key.slice(LAYOUT_KEY_PREFIX.length))) continue;
+      keys.push(key);
+      bytes += encoder.encode(
+        JSON.stringify({ [key]: this.settings[key] })
+      ).length;
+    }
+    return { keys, bytes };
+  }
+
+  /** Shows the dry-run summary and removes the layouts if confirmed. */
+  confirmLayoutCleanup(report: LayoutCleanupReport) {
+    new LayoutCleanupModal(this.app, report, async () => {
+      await this.deleteLayouts(report.keys);
+      new Notice(
+        `Horizontal Blocks: removed ${report.keys.length} unused layout(s) (${formatBytes(
+          report.bytes
+        )}).`
+      );
+    }).open();
+  }
+
+  async deleteLayouts(keys: string[]) {
+    const removedIds = new Set<string>();
+    for (const key of keys) {
+      delete this.settings[key];
+      removedIds.add(key.slice(LAYOUT_KEY_PREFIX.length));
+    }
+
+    const index: Record<string, string> = this.settings[LOCATION_INDEX_KEY] || {};
+    for (const location of Object.keys(index)) {
+      if (removedIds.has(index[location])) delete index[location];
+    }
+
+    await this.saveData(this.settings);
+  }
+
+  /**
+   * Replaces the body of the code block described by `info`, provided it
+   * still holds `expected`. Returns false when the block moved or changed.
+   */
+  async replaceBlockSource(
+    sourcePath: string,
+    info: MarkdownSectionInformation | null,
+    expected: string,
+    replacement: string
+  ): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(sourcePath);
+    if (!(file instanceof TFile) || !info) return false;
+
+    let written = false;
+    await this.app.vault.process(file, (content) => {
+      const lines = content.split("\n");
+      const bodyLength = info.lineEnd - info.lineStart - 1;
+      const current = lines
+        .slice(info.lineStart + 1, info.lineEnd)
+        .join("\n");
+      if (current !== expected) return content;
+      lines.splice(info.lineStart + 1, bodyLength, ...replacement.split("\n"));
+      written = true;
+      return lines.join("\n");
+    });
+    return written;
+  }
+
+  applyBlockWidth(block: HTMLElement, width: number | string) {
     block.classList.add("hblocks-has-width");
     // Use CSS custom property scoped to this element
     (block as HTMLElement).style.setProperty(
       "--hblocks-width",
-      `${Math.round(width)}px`
+      typeof width === "number" ? `${Math.round(width)}px` : width
+    );
+  }
+
+  /**
+   * Stacks a block's columns vertically when it is narrower than its
+   * breakpoint (a per-block `stack:` header or the global setting). Saved
+   * widths are left in place and apply again once the block is wide enough.
+   */
+  updateStacking(container: HTMLElement) {
+    const override = container.getAttribute("data-hblocks-stack");
+    const breakpoint =
+      override !== null ? Number(override) : this.style.stackBreakpoint;
+    const width = container.getBoundingClientRect().width;
+    container.classList.toggle(
+      "hblocks-stacked",
+      breakpoint > 0 && width > 0 && width < breakpoint
     );
   }
 
   removeBlockWidth(block: HTMLElement) {
     block.classList.remove("hblocks-has-width");
     (block as HTMLElement).style.removeProperty("--hblocks-width");
+    (block as HTMLElement).style.removeProperty("--hblocks-grow");
   }
 
   async saveStyle() {
@@ -1322,6 +4286,110 @@ export default class HorizontalBlocksPlugin extends Plugin {
   }
 }
 
+/** An Obsidian setting that isn't exposed in the typed API, if set. */
+function getVaultConfig(app: App, key: string): unknown {
+  const vault = app.vault as App["vault"] & {
+    getConfig?: (key: string) => unknown;
+  };
+  return vault.getConfig?.(key);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Line diff between the disk version of a section and the embed's edits. */
+class SectionDiffModal extends Modal {
+  private disk: string;
+  private mine: string;
+
+  constructor(app: App, disk: string, mine: string) {
+    super(app);
+    this.disk = disk;
+    this.mine = mine;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Section changes" });
+    contentEl.createEl("p", {
+      text: "Lines marked − are only on disk; lines marked + are only in the embed.",
+    });
+
+    const diskLines = this.disk.split("\n");
+    const diffEl = contentEl.createDiv("horizontal-blocks-diff");
+    const addLine = (prefix: string, text: string, cls?: string) => {
+      const lineEl = diffEl.createDiv("horizontal-blocks-diff-line");
+      if (cls) lineEl.addClass(cls);
+      lineEl.setText(`${prefix} ${text}`);
+    };
+
+    let position = 0;
+    for (const hunk of diffLines(diskLines, this.mine.split("\n"))) {
+      for (const line of diskLines.slice(position, hunk.start)) {
+        addLine(" ", line);
+      }
+      for (const line of diskLines.slice(hunk.start, hunk.end)) {
+        addLine("−", line, "is-removed");
+      }
+      for (const line of hunk.lines) addLine("+", line, "is-added");
+      position = hunk.end;
+    }
+    for (const line of diskLines.slice(position)) addLine(" ", line);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class LayoutCleanupModal extends Modal {
+  private report: LayoutCleanupReport;
+  private onConfirm: () => Promise<void>;
+
+  constructor(
+    app: App,
+    report: LayoutCleanupReport,
+    onConfirm: () => Promise<void>
+  ) {
+    super(app);
+    this.report = report;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Clean up unused layouts" });
+    contentEl.createEl("p", {
+      text: `${this.report.keys.length} stored layout(s) no longer match any horizontal block in the vault. Removing them reclaims about ${formatBytes(
+        this.report.bytes
+      )} in data.json.`,
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText("Remove")
+          .setWarning()
+          .onClick(async () => {
+            this.close();
+            await this.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
 class HBlockStylingSettingTab extends PluginSettingTab {
   plugin: HorizontalBlocksPlugin;
   constructor(app: any, plugin: HorizontalBlocksPlugin) {
@@ -1518,6 +4586,33 @@ class HBlockStylingSettingTab extends PluginSettingTab {
           this.plugin.applyStylingVariables();
         })
     );
+    new Setting(containerEl)
+      .setName("Snap widths while dragging")
+      .setDesc("Snap dividers to 1/4, 1/3, 1/2, 2/3 and 3/4 of the block width.")
+      .addToggle((t) =>
+        t.setValue(this.plugin.style.snapToRatios).onChange(async (v) => {
+          this.plugin.style.snapToRatios = v;
+          await this.plugin.saveStyle();
+        })
+      );
+    new Setting(containerEl)
+      .setName("Stack columns below")
+      .setDesc(
+        "Stack columns vertically when a block is narrower than this (px). 0 never stacks."
+      )
+      .addSlider((s) =>
+        s
+          .setLimits(0, 1200, 20)
+          .setValue(this.plugin.style.stackBreakpoint)
+          .setDynamicTooltip()
+          .onChange(async (v) => {
+            this.plugin.style.stackBreakpoint = v;
+            await this.plugin.saveStyle();
+            document
+              .querySelectorAll<HTMLElement>(".horizontal-block-container")
+              .forEach((container) => this.plugin.updateStacking(container));
+          })
+      );
     new Setting(containerEl)
       .setName("Toolbar visibility")
       .setDesc("Hide/show toolbar region (if present)")
@@ -1553,6 +4648,36 @@ class HBlockStylingSettingTab extends PluginSettingTab {
         })
       );
 
+    containerEl.createEl("h3", { text: "Embeds" });
+    new Setting(containerEl)
+      .setName("Maximum embed depth")
+      .setDesc(
+        "How many levels of embeds inside embedded notes are opened for editing. Deeper embeds, and embeds that lead back to a note already open above them, show a placeholder instead."
+      )
+      .addSlider((s) =>
+        s
+          .setLimits(1, 10, 1)
+          .setValue(this.plugin.style.maxEmbedDepth)
+          .setDynamicTooltip()
+          .onChange(async (v) => {
+            this.plugin.style.maxEmbedDepth = v;
+            await this.plugin.saveStyle();
+          })
+      );
+
+    containerEl.createEl("h3", { text: "Maintenance" });
+    new Setting(containerEl)
+      .setName("Clean up unused layouts on startup")
+      .setDesc(
+        "Offer to remove stored widths and colors of blocks that no longer exist in the vault. Nothing is removed without confirmation."
+      )
+      .addToggle((t) =>
+        t.setValue(this.plugin.style.autoCleanupLayouts).onChange(async (v) => {
+          this.plugin.style.autoCleanupLayouts = v;
+          await this.plugin.saveStyle();
+        })
+      );
+
     // Reset to defaults section
     containerEl.createEl("h3", { text: "Reset" });
     new Setting(containerEl)
@@ -1568,8 +4693,13 @@ class HBlockStylingSettingTab extends PluginSettingTab {
             );
             if (!confirmed) return;
 
-            // 1) Reset global style settings
-            this.plugin.style = { ...DEFAULT_STYLE_SETTINGS };
+            // 1) Reset global style settings (embed and maintenance
+            // options are kept)
+            this.plugin.style = {
+              ...DEFAULT_STYLE_SETTINGS,
+              maxEmbedDepth: this.plugin.style.maxEmbedDepth,
+              autoCleanupLayouts: this.plugin.style.autoCleanupLayouts,
+            };
 
             // 2) Remove per-block style overrides (bg/fg) but keep widths
             for (const key of Object.keys(this.plugin.settings)) {
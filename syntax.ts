@@ -0,0 +1,797 @@
+// Markdown helpers that don't depend on Obsidian, so tests can load them
+
+export const COLUMN_SEPARATOR = /^---\s*$/;
+// When a block uses this separator, `---` lines stay horizontal rules
+export const ALT_COLUMN_SEPARATOR = /^===col===\s*$/;
+// `\---` (or `\===col===`) is rendered literally instead of splitting
+const ESCAPED_SEPARATOR = /^\\(---\s*|===col===\s*)$/;
+
+/**
+ * The text an escaped separator renders as. `\---` becomes `***`: a bare
+ * `---` right after a paragraph line would turn that line into a heading.
+ */
+export function unescapeSeparator(line: string): string {
+  const match = line.match(ESCAPED_SEPARATOR);
+  if (!match) return line;
+  return match[1].startsWith("---") ? "***" : match[1];
+}
+
+export interface BlockColumn {
+  markdown: string; // text handed to the markdown renderer
+  startLine: number; // body line where `markdown` begins
+  endLine: number; // body line after the last non-blank line (exclusive)
+  rawStart: number; // first body line of the column
+  rawEnd: number; // body line of the next separator (exclusive)
+}
+
+/** Marks the lines that sit inside fenced code (``` or ~~~). */
+export function computeFenceMask(lines: string[]): boolean[] {
+  const mask: boolean[] = [];
+  let fence: string | null = null;
+  for (const line of lines) {
+    const match = line.match(/^\s*(`{3,}|~{3,})(.*)$/);
+    if (!fence) {
+      mask.push(false);
+      // Backtick fences can't have backticks in their info string
+      if (match && !(match[1][0] === "`" && match[2].includes("`")))
+        fence = match[1];
+      continue;
+    }
+    mask.push(true);
+    if (
+      match &&
+      match[1][0] === fence[0] &&
+      match[1].length >= fence.length &&
+      match[2].trim() === ""
+    ) {
+      fence = null;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Splits a block body into columns. Separators inside fenced code (``` or
+ * ~~~) are ignored, `\---` is kept as a horizontal rule, and a block that
+ * contains `===col===` is split on that instead of `---`.
+ */
+export function splitColumns(body: string): BlockColumn[] {
+  const lines = body.split("\n");
+  const fenceMask = computeFenceMask(lines);
+
+  const useAlt = lines.some(
+    (line, i) => !fenceMask[i] && ALT_COLUMN_SEPARATOR.test(line)
+  );
+  const separator = useAlt ? ALT_COLUMN_SEPARATOR : COLUMN_SEPARATOR;
+
+  const columns: BlockColumn[] = [];
+  let rawStart = 0;
+  const pushColumn = (rawEnd: number) => {
+    const columnLines = lines
+      .slice(rawStart, rawEnd)
+      .map((line, i) =>
+        fenceMask[rawStart + i] ? line : unescapeSeparator(line)
+      );
+    let leading = 0;
+    while (leading < columnLines.length && columnLines[leading].trim() === "")
+      leading++;
+    let trailing = columnLines.length;
+    while (trailing > leading && columnLines[trailing - 1].trim() === "")
+      trailing--;
+    columns.push({
+      markdown: columnLines.join("\n").trim(),
+      startLine: rawStart + leading,
+      endLine: rawStart + trailing,
+      rawStart,
+      rawEnd,
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!fenceMask[i] && separator.test(lines[i])) {
+      pushColumn(i);
+      rawStart = i + 1;
+    }
+  }
+  pushColumn(lines.length);
+
+  return columns;
+}
+
+/**
+ * Escapes lines of column text that would otherwise start a new column once
+ * the text is placed back into a block.
+ */
+export function escapeColumnSeparators(markdown: string): string {
+  const lines = markdown.split("\n");
+  const fenceMask = computeFenceMask(lines);
+  return lines
+    .map((line, i) =>
+      !fenceMask[i] &&
+      (COLUMN_SEPARATOR.test(line) || ALT_COLUMN_SEPARATOR.test(line))
+        ? `\\${line}`
+        : line
+    )
+    .join("\n");
+}
+
+export interface BlockHeading {
+  heading: string;
+  level: number;
+  line: number;
+}
+
+/**
+ * Heading text the way Obsidian compares it against link subpaths:
+ * punctuation (including markdown markers) becomes spaces, case is ignored.
+ */
+export function normalizeHeading(text: string): string {
+  return text
+    .replace(/[!"#$%&()*+,.:;<=>?@^`{|}~/[\]\\\r\n]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/** ATX headings of a note, skipping fenced code. */
+export function parseHeadings(content: string): BlockHeading[] {
+  const lines = content.split("\n");
+  const fenceMask = computeFenceMask(lines);
+  const headings: BlockHeading[] = [];
+  lines.forEach((line, i) => {
+    if (fenceMask[i]) return;
+    const match = line.match(/^ {0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (match) {
+      headings.push({ heading: match[2], level: match[1].length, line: i });
+    }
+  });
+  return headings;
+}
+
+export interface SectionRange {
+  start: number;
+  end: number; // exclusive
+  level: number;
+}
+
+/**
+ * Resolves a heading subpath such as `Notes` or `2024#Notes` to a line
+ * range. The last part names the heading; earlier parts must be its
+ * ancestors, in order but not necessarily direct parents. The first
+ * heading that fits wins, as in Obsidian's own link resolution.
+ */
+export function findHeadingSection(
+  headings: BlockHeading[],
+  section: string,
+  lineCount: number
+): SectionRange | null {
+  const parts = section.split("#").map(normalizeHeading).filter(Boolean);
+  if (parts.length === 0) return null;
+  const target = parts[parts.length - 1];
+  const ancestors = parts.slice(0, -1);
+
+  const stack: BlockHeading[] = [];
+  for (let i = 0; i < headings.length; i++) {
+    const heading = headings[i];
+    while (stack.length && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+
+    if (normalizeHeading(heading.heading) === target) {
+      let matched = 0;
+      for (const parent of stack) {
+        if (
+          matched < ancestors.length &&
+          normalizeHeading(parent.heading) === ancestors[matched]
+        ) {
+          matched++;
+        }
+      }
+      if (matched === ancestors.length) {
+        const next = headings
+          .slice(i + 1)
+          .find((other) => other.level <= heading.level);
+        return {
+          start: heading.line,
+          end: next ? next.line : lineCount,
+          level: heading.level,
+        };
+      }
+    }
+
+    stack.push(heading);
+  }
+  return null;
+}
+
+/** Heading text with the characters Obsidian doesn't allow in links removed. */
+export function linkSafeHeading(text: string): string {
+  return text
+    .replace(/[#|^:[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Shortest heading path that resolves to `headings[index]`: the heading
+ * itself, prefixed with ancestors only as far as needed to skip earlier
+ * headings of the same name.
+ */
+export function headingSubpath(headings: BlockHeading[], index: number): string {
+  const heading = headings[index];
+  const path = [linkSafeHeading(heading.heading)];
+  let level = heading.level;
+  for (let i = index - 1; i >= 0; i--) {
+    const resolved = findHeadingSection(headings, path.join("#"), Infinity);
+    if (resolved?.start === heading.line) break;
+    if (headings[i].level < level) {
+      path.unshift(linkSafeHeading(headings[i].heading));
+      level = headings[i].level;
+    }
+  }
+  return path.join("#");
+}
+
+/** Text of the heading on the first line of a section, or null. */
+export function sectionHeading(text: string): string | null {
+  const match = text
+    .split("\n")[0]
+    .match(/^ {0,3}#{1,6}\s+(.+?)(?:\s+#+)?\s*$/);
+  return match ? match[1] : null;
+}
+
+/** `section` with its last heading path part replaced by `heading`. */
+export function renamedSubpath(section: string, heading: string): string {
+  const parts = section.split("#");
+  parts[parts.length - 1] = linkSafeHeading(heading);
+  return parts.join("#");
+}
+
+/** One note (or section of it) in a chain of nested embeds. */
+export interface EmbedChainLink {
+  path: string;
+  section: string | null;
+}
+
+/**
+ * Whether embedding `target` inside `chain` leads back to a note already
+ * open above it. Embeds in the chain match when either side is the whole
+ * note or the sections are the same. The first link is the note open in the
+ * workspace, not an embed, so a section of it only matches when
+ * `holdsEmbed` says the section contains the block the chain continues
+ * from, i.e. the one embedding `next`.
+ */
+export function isCircularEmbed(
+  chain: EmbedChainLink[],
+  target: EmbedChainLink,
+  holdsEmbed: (section: string, next: EmbedChainLink) => boolean
+): boolean {
+  return chain.some((link, index) => {
+    if (link.path !== target.path) return false;
+    if (target.section === null || link.section === target.section) {
+      return true;
+    }
+    if (index > 0) return link.section === null;
+    return holdsEmbed(target.section, chain[1] ?? target);
+  });
+}
+
+/** Lines `start..end` (exclusive) of the old text replaced by `lines`. */
+export interface LineHunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Line diff of `a` against `b` as hunks over `a`, via longest common
+ * subsequence.
+ */
+export function diffLines(a: string[], b: string[]): LineHunk[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: LineHunk[] = [];
+  let current: LineHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { start: i, end: i, lines: [] };
+      hunks.push(current);
+    }
+    if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current.lines.push(b[j++]);
+    } else {
+      current.end = ++i;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Merges two edits of the same text line by line. Returns null when both
+ * sides changed the same lines differently (or inserted at the same spot).
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string
+): string | null {
+  if (ours === theirs || theirs === base) return ours;
+  if (ours === base) return theirs;
+
+  const baseLines = base.split("\n");
+  const ourHunks = diffLines(baseLines, ours.split("\n"));
+  const theirHunks = diffLines(baseLines, theirs.split("\n"));
+
+  const hunks: LineHunk[] = [...ourHunks];
+  for (const theirs of theirHunks) {
+    const clash = ourHunks.find(
+      (ours) =>
+        (ours.start < theirs.end && theirs.start < ours.end) ||
+        ours.start === theirs.start
+    );
+    if (!clash) {
+      hunks.push(theirs);
+      continue;
+    }
+    const same =
+      clash.start === theirs.start &&
+      clash.end === theirs.end &&
+      clash.lines.join("\n") === theirs.lines.join("\n");
+    if (!same) return null;
+  }
+
+  hunks.sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: string[] = [];
+  let position = 0;
+  for (const hunk of hunks) {
+    merged.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  merged.push(...baseLines.slice(position));
+  return merged.join("\n");
+}
+
+/**
+ * Layout options written inline at the top of a block, e.g.
+ *
+ *   id: weekly
+ *   widths: 30%, 70%
+ *   titles: Plan, Notes
+ *
+ * List values hold one entry per column; empty entries fall back to the
+ * column's default.
+ */
+export interface BlockOptions {
+  id?: string;
+  widths?: string[]; // "30%", "2fr", "240px" or "auto"
+  titles?: string[];
+  gap?: number; // px
+  stack?: number; // px breakpoint, 0 = never stack
+  borders?: boolean;
+  bg?: string[];
+  fg?: string[];
+}
+
+export interface ParsedBlockHeader {
+  options: BlockOptions;
+  headerLineCount: number;
+  body: string; // everything after the header lines
+}
+
+const BLOCK_OPTION_KEYS = [
+  "id",
+  "widths",
+  "titles",
+  "gap",
+  "stack",
+  "borders",
+  "bg",
+  "fg",
+];
+
+/**
+ * Splits a list value on commas outside quotes and parentheses, so colors
+ * like `rgb(1, 2, 3)` stay whole. Accepts YAML flow lists (`[a, b]`).
+ */
+function splitOptionList(value: string): string[] {
+  let text = value.trim();
+  if (text.startsWith("[") && text.endsWith("]")) text = text.slice(1, -1);
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let escaped = false;
+  let current = "";
+  for (const ch of text) {
+    if (quote) {
+      if (escaped) escaped = false;
+      else if (ch === "\\" && quote === '"') escaped = true;
+      else if (ch === quote) quote = null;
+      current += ch;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if (ch === "," && depth === 0) {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  items.push(current);
+  return items.map(unquoteOption);
+}
+
+/** A list entry without its quotes; `\"` and `\\` escape double quotes. */
+function unquoteOption(value: string): string {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(["'])(.*)\1$/);
+  if (!match) return trimmed;
+  return match[1] === '"' ? match[2].replace(/\\(["\\])/g, "$1") : match[2];
+}
+
+const OPTION_WIDTH = /^(\d*\.?\d+(%|px|fr)?|auto)$/;
+const OPTION_LENGTH = /^\d*\.?\d+(px)?$/;
+const OPTION_COLOR =
+  /^(#[0-9a-f]{3,8}|(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color-mix|var)\(.*\)|[a-z]+)$/i;
+
+/**
+ * Applies one header option. Returns false when the value doesn't parse
+ * for its key, in which case the line isn't a header line.
+ */
+function applyBlockOption(
+  options: BlockOptions,
+  key: string,
+  items: string[]
+): boolean {
+  const value = items.join(", ");
+  // Empty list entries fall back to the column's default
+  const every = (list: string[], pattern: RegExp) =>
+    list.every((item) => !item || pattern.test(item));
+  switch (key) {
+    case "id":
+      if (!/^[\p{L}\p{N}_./-]+$/u.test(value)) return false;
+      options.id = value;
+      return true;
+    case "widths": {
+      // "1fr 2fr" is as natural as "1fr, 2fr"
+      const widths =
+        items.length === 1 ? items[0].split(/\s+/).filter(Boolean) : items;
+      if (!every(widths, OPTION_WIDTH)) return false;
+      options.widths = widths;
+      return true;
+    }
+    case "titles":
+      options.titles = items;
+      return true;
+    case "gap":
+      if (!OPTION_LENGTH.test(value)) return false;
+      options.gap = parseFloat(value);
+      return true;
+    case "stack":
+      if (/^(never|off|false)$/.test(value)) {
+        options.stack = 0;
+        return true;
+      }
+      if (!OPTION_LENGTH.test(value)) return false;
+      options.stack = parseFloat(value);
+      return true;
+    case "borders":
+      if (!/^(true|false|yes|no|on|off)$/.test(value)) return false;
+      options.borders = /^(true|yes|on)$/.test(value);
+      return true;
+    case "bg":
+    case "fg":
+      if (!every(items, OPTION_COLOR)) return false;
+      options[key] = items;
+      return true;
+  }
+  return false;
+}
+
+/**
+ * Reads the optional options header at the top of a block. The header is a
+ * run of `key: value` lines using known option keys, in lower case, whose
+ * values parse; lists may also be written as YAML sequences (`- item`)
+ * under an empty key. The header ends at the first line that isn't one,
+ * so prose such as `Gap: we need budget` stays in the content. A sequence
+ * ends at an item indented less than its first one or at one that doesn't
+ * parse, so a body starting with `- task` isn't taken for another entry.
+ */
+export function parseBlockHeader(source: string): ParsedBlockHeader {
+  const lines = source.split("\n");
+  const options: BlockOptions = {};
+  let listKey: string | null = null;
+  let listStart = 0;
+  let listIndent: number | null = null;
+  let listItems: string[] = [];
+  let i = 0;
+
+  // A list that is empty or doesn't parse ends the header at its key line
+  const flushList = () => {
+    const valid =
+      !listKey ||
+      (listItems.length > 0 && applyBlockOption(options, listKey, listItems));
+    if (!valid) i = listStart;
+    listKey = null;
+    listIndent = null;
+    listItems = [];
+    return valid;
+  };
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    const itemMatch = line.match(/^(\s*)-\s+(.*)$/);
+    if (
+      listKey &&
+      itemMatch &&
+      (listIndent === null || itemMatch[1].length >= listIndent)
+    ) {
+      const items = [...listItems, unquoteOption(itemMatch[2])];
+      if (applyBlockOption({}, listKey, items)) {
+        if (listIndent === null) listIndent = itemMatch[1].length;
+        listItems = items;
+        continue;
+      }
+    }
+
+    if (!flushList()) break;
+    const match = line.match(/^\s*([a-z]+):(?:\s+(.*?))?\s*$/);
+    if (!match || !BLOCK_OPTION_KEYS.includes(match[1])) break;
+
+    const key = match[1];
+    const value = match[2] ?? "";
+    if (value === "") {
+      listKey = key;
+      listStart = i;
+    } else if (
+      !applyBlockOption(
+        options,
+        key,
+        ["id", "gap", "stack", "borders"].includes(key)
+          ? [unquoteOption(value)]
+          : splitOptionList(value)
+      )
+    ) {
+      break;
+    }
+  }
+  flushList();
+
+  return {
+    options,
+    headerLineCount: i,
+    body: lines.slice(i).join("\n"),
+  };
+}
+
+/** A list entry quoted if needed so `splitOptionList` reads it back as is. */
+function quoteOption(value: string): string {
+  if (!/[,"'[\]]|^\s|\s$/.test(value)) return value;
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+export function serializeBlockHeader(options: BlockOptions): string[] {
+  const lines: string[] = [];
+  if (options.id) lines.push(`id: ${options.id}`);
+  if (options.widths?.length)
+    lines.push(`widths: ${options.widths.join(", ")}`);
+  if (options.titles?.some(Boolean))
+    lines.push(`titles: ${options.titles.map(quoteOption).join(", ")}`);
+  if (options.gap !== undefined) lines.push(`gap: ${options.gap}`);
+  if (options.stack !== undefined)
+    lines.push(`stack: ${options.stack || "never"}`);
+  if (options.borders !== undefined) lines.push(`borders: ${options.borders}`);
+  if (options.bg?.some(Boolean)) lines.push(`bg: ${options.bg.join(", ")}`);
+  if (options.fg?.some(Boolean)) lines.push(`fg: ${options.fg.join(", ")}`);
+  return lines;
+}
+
+const HORIZONTAL_BLOCK_LANGUAGES = ["horizontal", "hblock"];
+
+export interface HorizontalBlockFence {
+  language: string;
+  startLine: number; // line of the opening fence
+  endLine: number; // line of the closing fence
+  source: string;
+  nested: boolean; // quoted or indented, so lines differ from `source`
+}
+
+/**
+ * Finds every `horizontal`/`hblock` fence in a note, skipping fences that
+ * appear inside other code blocks. Fences inside callouts, quotes and list
+ * items are found too; their `>` markers and indentation are stripped from
+ * `source`, which matches what Obsidian hands to the code block processor.
+ */
+export function findHorizontalBlockFences(
+  content: string
+): HorizontalBlockFence[] {
+  const lines = content.split(/\r?\n/);
+  const fences: HorizontalBlockFence[] = [];
+  let open: {
+    marker: string;
+    language: string;
+    startLine: number;
+    quotes: number; // `>` markers before the fence
+    indent: number; // spaces before the fence, after the markers
+    body: string[];
+  } | null = null;
+
+  // The line without `quotes` quote markers, or null if it has fewer
+  const unquote = (line: string, quotes: number): string | null => {
+    for (let q = 0; q < quotes; q++) {
+      const match = line.match(/^[ \t]*> ?/);
+      if (!match) return null;
+      line = line.slice(match[0].length);
+    }
+    return line;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!open) {
+      const match = lines[i].match(
+        /^((?:[ \t]*> ?)*)( *)(`{3,}|~{3,})\s*([^\s`]*)/
+      );
+      if (match) {
+        open = {
+          marker: match[3],
+          language: match[4].toLowerCase(),
+          startLine: i,
+          quotes: (match[1].match(/>/g) ?? []).length,
+          indent: match[2].length,
+          body: [],
+        };
+      }
+      continue;
+    }
+
+    const quoted = unquote(lines[i], open.quotes);
+    // Leaving the callout or quote ends the code block
+    if (quoted === null) {
+      open = null;
+      i--;
+      continue;
+    }
+    const indent = quoted.match(/^ */)?.[0].length ?? 0;
+    const line = quoted.slice(Math.min(indent, open.indent));
+
+    const close = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+    if (
+      close &&
+      close[1][0] === open.marker[0] &&
+      close[1].length >= open.marker.length
+    ) {
+      if (HORIZONTAL_BLOCK_LANGUAGES.includes(open.language)) {
+        fences.push({
+          language: open.language,
+          startLine: open.startLine,
+          endLine: i,
+          source: open.body.join("\n"),
+          nested: open.quotes > 0 || open.indent > 0,
+        });
+      }
+      open = null;
+      continue;
+    }
+
+    open.body.push(line);
+  }
+
+  return fences;
+}
+
+// [[path#subpath|alias]], optionally embedded with a leading !
+const WIKILINK = /(!?)\[\[([^\[\]|#]*)(#[^\[\]|]*)?(\|[^\[\]]*)?\]\]/g;
+
+/**
+ * Rewrites the targets of wikilinks and embeds inside horizontal blocks.
+ * `replace` returns the new path and subpath, or null to leave a link
+ * untouched. Aliases are kept.
+ */
+export function rewriteBlockLinks(
+  content: string,
+  replace: (linkpath: string, subpath: string) => string | null
+): string {
+  const fences = findHorizontalBlockFences(content);
+  if (fences.length === 0) return content;
+
+  const lines = content.split("\n");
+  for (const fence of fences) {
+    for (let i = fence.startLine + 1; i < fence.endLine; i++) {
+      lines[i] = lines[i].replace(
+        WIKILINK,
+        (match, bang: string, linkpath: string, subpath = "", alias = "") => {
+          const next = replace(linkpath, subpath);
+          return next === null ? match : `${bang}[[${next}${alias}]]`;
+        }
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+export interface BlockLink {
+  linkpath: string;
+  subpath: string;
+  embed: boolean;
+  line: number;
+}
+
+export interface BlockTag {
+  tag: string;
+  line: number;
+}
+
+export interface NoteBlockMetadata {
+  links: BlockLink[];
+  tags: BlockTag[];
+  headings: BlockHeading[];
+}
+
+/**
+ * Collects the links, tags and headings written inside a note's horizontal
+ * blocks, which Obsidian's metadata cache skips as code. Line numbers are
+ * lines of the note.
+ */
+export function extractBlockMetadata(content: string): NoteBlockMetadata {
+  const metadata: NoteBlockMetadata = { links: [], tags: [], headings: [] };
+
+  for (const fence of findHorizontalBlockFences(content)) {
+    // `source` has callout markers and list indentation stripped
+    const { headerLineCount, body } = parseBlockHeader(fence.source);
+    const first = fence.startLine + 1 + headerLineCount;
+    const bodyLines = body.split("\n");
+    const fenceMask = computeFenceMask(bodyLines);
+
+    bodyLines.forEach((raw, i) => {
+      if (fenceMask[i]) return;
+      const line = first + i;
+      const text = raw.replace(/`[^`]*`/g, "");
+
+      const heading = text.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+      if (heading) {
+        metadata.headings.push({
+          heading: heading[2],
+          level: heading[1].length,
+          line,
+        });
+      }
+
+      for (const match of text.matchAll(WIKILINK)) {
+        metadata.links.push({
+          linkpath: match[2],
+          subpath: match[3] ?? "",
+          embed: match[1] === "!",
+          line,
+        });
+      }
+
+      // Same rules as Obsidian: not part of a word, not only digits
+      for (const match of text.matchAll(/(?:^|\s)#([\p{L}\p{N}_/-]+)/gu)) {
+        if (/^\d+$/.test(match[1])) continue;
+        metadata.tags.push({ tag: `#${match[1]}`, line });
+      }
+    });
+  }
+
+  return metadata;
+}
@@ -0,0 +1,588 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffLines,
+  escapeColumnSeparators,
+  extractBlockMetadata,
+  findHeadingSection,
+  findHorizontalBlockFences,
+  headingSubpath,
+  isCircularEmbed,
+  mergeThreeWay,
+  normalizeHeading,
+  parseBlockHeader,
+  parseHeadings,
+  rewriteBlockLinks,
+  serializeBlockHeader,
+  splitColumns,
+} from "../syntax";
+
+const markdown = (body: string) =>
+  splitColumns(body).map((column) => column.markdown);
+
+describe("splitColumns", () => {
+  it("splits on `---` lines", () => {
+    expect(markdown("one\n---\ntwo\n---\nthree")).toEqual([
+      "one",
+      "two",
+      "three",
+    ]);
+  });
+
+  it("ignores separators inside fenced code", () => {
+    expect(markdown("```\n---\n```\n---\n~~~\n---\n~~~")).toEqual([
+      "```\n---\n```",
+      "~~~\n---\n~~~",
+    ]);
+  });
+
+  it("splits on `===col===` and keeps `---` as a rule when present", () => {
+    expect(markdown("one\n---\ntwo\n===col===\nthree")).toEqual([
+      "one\n---\ntwo",
+      "three",
+    ]);
+  });
+
+  it("renders an escaped `\\---` as a break that can't become a heading", () => {
+    expect(markdown("para\n\\---\nmore")).toEqual(["para\n***\nmore"]);
+    expect(markdown("\\---")).toEqual(["***"]);
+  });
+
+  it("leaves an escaped `\\===col===` as literal text", () => {
+    expect(markdown("one\n\\===col===\ntwo")).toEqual(["one\n===col===\ntwo"]);
+  });
+
+  it("keeps escaped separators inside fenced code as written", () => {
+    expect(markdown("```\n\\---\n```")).toEqual(["```\n\\---\n```"]);
+  });
+
+  it("reports the lines each column covers", () => {
+    const [first, second] = splitColumns("\none\n\n---\n\ntwo\n");
+    expect(first).toMatchObject({
+      startLine: 1,
+      endLine: 2,
+      rawStart: 0,
+      rawEnd: 3,
+    });
+    expect(second).toMatchObject({
+      startLine: 5,
+      endLine: 6,
+      rawStart: 4,
+      rawEnd: 7,
+    });
+  });
+
+  it("returns one empty column for an empty body", () => {
+    expect(markdown("")).toEqual([""]);
+  });
+});
+
+describe("escapeColumnSeparators", () => {
+  it("escapes lines that would start a new column", () => {
+    expect(escapeColumnSeparators("a\n---\nb\n===col===")).toBe(
+      "a\n\\---\nb\n\\===col==="
+    );
+  });
+
+  it("leaves fenced code alone", () => {
+    expect(escapeColumnSeparators("```\n---\n```")).toBe("```\n---\n```");
+  });
+
+  it("round-trips through splitColumns as a single column", () => {
+    const columns = splitColumns(escapeColumnSeparators("para\n---\nmore"));
+    expect(columns).toHaveLength(1);
+    expect(columns[0].markdown).toBe("para\n***\nmore");
+  });
+});
+
+describe("parseHeadings", () => {
+  it("drops a closing sequence of `#`s", () => {
+    expect(parseHeadings("## Title ##\n### Other #####  ")).toEqual([
+      { heading: "Title", level: 2, line: 0 },
+      { heading: "Other", level: 3, line: 1 },
+    ]);
+  });
+
+  it("keeps `#`s that aren't a separate closing sequence", () => {
+    expect(parseHeadings("## C#\n## Issue #12")).toEqual([
+      { heading: "C#", level: 2, line: 0 },
+      { heading: "Issue #12", level: 2, line: 1 },
+    ]);
+  });
+
+  it("skips headings inside fenced code and non-headings", () => {
+    const content = "```\n# code\n```\n#tag\n    # indented\n# Real";
+    expect(parseHeadings(content)).toEqual([
+      { heading: "Real", level: 1, line: 5 },
+    ]);
+  });
+});
+
+describe("normalizeHeading", () => {
+  it("ignores case, punctuation and markdown markers", () => {
+    expect(normalizeHeading("**Bold** and `code`!")).toBe("bold and code");
+    expect(normalizeHeading("[[Link|Alias]]  Notes")).toBe("link alias notes");
+  });
+});
+
+describe("findHeadingSection", () => {
+  const note = [
+    "# Project", // 0
+    "## Notes", // 1
+    "first", // 2
+    "# Archive", // 3
+    "## Notes", // 4
+    "second", // 5
+    "### Details", // 6
+    "## Summary ##", // 7
+  ].join("\n");
+  const headings = parseHeadings(note);
+  const lineCount = note.split("\n").length;
+
+  it("resolves a duplicate heading to the first occurrence", () => {
+    expect(findHeadingSection(headings, "Notes", lineCount)).toEqual({
+      start: 1,
+      end: 3,
+      level: 2,
+    });
+  });
+
+  it("resolves a later duplicate through its ancestors", () => {
+    expect(findHeadingSection(headings, "Archive#Notes", lineCount)).toEqual({
+      start: 4,
+      end: 7,
+      level: 2,
+    });
+  });
+
+  it("lets ancestors skip levels", () => {
+    expect(findHeadingSection(headings, "Archive#Details", lineCount)).toEqual(
+      { start: 6, end: 7, level: 3 }
+    );
+  });
+
+  it("matches headings with trailing `#`s and ends at the note's end", () => {
+    expect(findHeadingSection(headings, "Summary", lineCount)).toEqual({
+      start: 7,
+      end: 8,
+      level: 2,
+    });
+  });
+
+  it("matches markdown inside headings by their plain text", () => {
+    const content = "# Intro\n## **Key** `ideas`\ntext";
+    const range = { start: 1, end: 3, level: 2 };
+    const headings = parseHeadings(content);
+    expect(findHeadingSection(headings, "Key ideas", 3)).toEqual(range);
+    expect(findHeadingSection(headings, "**Key** `ideas`", 3)).toEqual(range);
+  });
+
+  it("returns null for missing headings or ancestors", () => {
+    expect(findHeadingSection(headings, "Missing", lineCount)).toBeNull();
+    expect(findHeadingSection(headings, "Summary#Notes", lineCount)).toBeNull();
+    expect(findHeadingSection(headings, "", lineCount)).toBeNull();
+  });
+});
+
+describe("headingSubpath", () => {
+  const headings = parseHeadings(
+    "# Project\n## Notes\n# Archive\n## Notes\n### Notes"
+  );
+
+  it("uses the heading alone when it resolves", () => {
+    expect(headingSubpath(headings, 1)).toBe("Notes");
+  });
+
+  it("adds ancestors to reach a duplicate", () => {
+    expect(headingSubpath(headings, 3)).toBe("Archive#Notes");
+    expect(headingSubpath(headings, 4)).toBe("Notes#Notes");
+  });
+});
+
+describe("isCircularEmbed", () => {
+  const host = { path: "Note.md", section: null };
+  const never = () => false;
+
+  it("refuses a note embedding itself whole", () => {
+    expect(isCircularEmbed([host], host, never)).toBe(true);
+  });
+
+  it("allows a section of the host note outside the embedding block", () => {
+    const target = { path: "Note.md", section: "Tasks" };
+    expect(isCircularEmbed([host], target, never)).toBe(false);
+  });
+
+  it("refuses a section of the host note holding the embedding block", () => {
+    const target = { path: "Note.md", section: "Tasks" };
+    const holdsEmbed = (section: string, next: { path: string }) =>
+      section === "Tasks" && next.path === "Note.md";
+    expect(isCircularEmbed([host], target, holdsEmbed)).toBe(true);
+  });
+
+  it("asks about the block leading to the next note in the chain", () => {
+    const other = { path: "Other.md", section: null };
+    const target = { path: "Note.md", section: "Tasks" };
+    const seen: string[] = [];
+    isCircularEmbed([host, other], target, (_, next) => {
+      seen.push(next.path);
+      return false;
+    });
+    expect(seen).toEqual(["Other.md"]);
+  });
+
+  it("matches embeds in the chain by note and section", () => {
+    const chain = [host, { path: "Other.md", section: "A" }];
+    expect(
+      isCircularEmbed(chain, { path: "Other.md", section: "A" }, never)
+    ).toBe(true);
+    expect(
+      isCircularEmbed(chain, { path: "Other.md", section: "B" }, never)
+    ).toBe(false);
+    expect(
+      isCircularEmbed(chain, { path: "Other.md", section: null }, never)
+    ).toBe(true);
+  });
+
+  it("treats a whole-note embed in the chain as holding every section", () => {
+    const chain = [host, { path: "Other.md", section: null }];
+    expect(
+      isCircularEmbed(chain, { path: "Other.md", section: "A" }, never)
+    ).toBe(true);
+  });
+});
+
+describe("diffLines", () => {
+  it("returns no hunks for equal text", () => {
+    expect(diffLines(["a", "b"], ["a", "b"])).toEqual([]);
+  });
+
+  it("reports changes as hunks over the old lines", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "B", "c", "d"])).toEqual([
+      { start: 1, end: 2, lines: ["B"] },
+      { start: 3, end: 3, lines: ["d"] },
+    ]);
+    expect(diffLines(["a", "b", "c"], ["a", "c"])).toEqual([
+      { start: 1, end: 2, lines: [] },
+    ]);
+  });
+});
+
+describe("mergeThreeWay", () => {
+  const base = "one\ntwo\nthree\nfour\nfive";
+
+  it("takes whichever side changed", () => {
+    expect(mergeThreeWay(base, base, "changed")).toBe("changed");
+    expect(mergeThreeWay(base, "changed", base)).toBe("changed");
+    expect(mergeThreeWay(base, "same", "same")).toBe("same");
+  });
+
+  it("merges edits to different lines", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "ONE\ntwo\nthree\nfour\nfive",
+        "one\ntwo\nthree\nfour\nFIVE"
+      )
+    ).toBe("ONE\ntwo\nthree\nfour\nFIVE");
+  });
+
+  it("merges edits to adjacent lines", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "one\nTWO\nthree\nfour\nfive",
+        "one\ntwo\nTHREE\nfour\nfive"
+      )
+    ).toBe("one\nTWO\nTHREE\nfour\nfive");
+  });
+
+  it("conflicts when both sides change the same line differently", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "one\nmine\nthree\nfour\nfive",
+        "one\ntheirs\nthree\nfour\nfive"
+      )
+    ).toBeNull();
+  });
+
+  it("conflicts when the changed ranges overlap", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "one\nTWO\nTHREE\nfour\nfive",
+        "one\ntwo\n3\n4\nfive"
+      )
+    ).toBeNull();
+  });
+
+  it("keeps a change both sides made", () => {
+    const edited = "one\nTWO\nthree\nfour\nfive";
+    const other = "one\nTWO\nthree\nfour\nFIVE";
+    expect(mergeThreeWay(base, edited, other)).toBe(other);
+  });
+
+  it("conflicts when both sides insert at the same line", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "one\nmine\ntwo\nthree\nfour\nfive",
+        "one\ntheirs\ntwo\nthree\nfour\nfive"
+      )
+    ).toBeNull();
+  });
+
+  it("conflicts when both sides append at the end", () => {
+    expect(mergeThreeWay(base, `${base}\nmine`, `${base}\ntheirs`)).toBeNull();
+  });
+
+  it("merges inserts at different lines", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "zero\none\ntwo\nthree\nfour\nfive",
+        `${base}\nsix`
+      )
+    ).toBe("zero\none\ntwo\nthree\nfour\nfive\nsix");
+  });
+
+  it("conflicts when one side deletes a line the other changed", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "one\nthree\nfour\nfive",
+        "one\nTWO\nthree\nfour\nfive"
+      )
+    ).toBeNull();
+  });
+
+  it("merges a delete with a change elsewhere", () => {
+    expect(
+      mergeThreeWay(
+        base,
+        "one\nthree\nfour\nfive",
+        "one\ntwo\nthree\nfour\nFIVE"
+      )
+    ).toBe("one\nthree\nfour\nFIVE");
+  });
+});
+
+describe("parseBlockHeader", () => {
+  it("reads options and leaves the rest as the body", () => {
+    const header = parseBlockHeader(
+      "id: weekly\nwidths: 30%, 70%\ntitles: Plan, Notes\n# Left"
+    );
+    expect(header.options).toEqual({
+      id: "weekly",
+      widths: ["30%", "70%"],
+      titles: ["Plan", "Notes"],
+    });
+    expect(header.headerLineCount).toBe(3);
+    expect(header.body).toBe("# Left");
+  });
+
+  it("only takes lower-case keys", () => {
+    const header = parseBlockHeader("Gap: we need budget\ngap: 8");
+    expect(header.options).toEqual({});
+    expect(header.headerLineCount).toBe(0);
+  });
+
+  it("ends at the first value that doesn't parse", () => {
+    const header = parseBlockHeader("gap: 8\ngap: wide\nbody");
+    expect(header.options).toEqual({ gap: 8 });
+    expect(header.body).toBe("gap: wide\nbody");
+  });
+
+  it("reads YAML sequences", () => {
+    const header = parseBlockHeader("widths:\n  - 30%\n  - 70%\nbody");
+    expect(header.options).toEqual({ widths: ["30%", "70%"] });
+    expect(header.body).toBe("body");
+  });
+
+  it("ends a sequence at a less indented item", () => {
+    const header = parseBlockHeader(
+      "titles:\n  - Plan\n  - Notes\n- task\n---\nmore"
+    );
+    expect(header.options).toEqual({ titles: ["Plan", "Notes"] });
+    expect(header.body).toBe("- task\n---\nmore");
+  });
+
+  it("ends a sequence at an item that doesn't parse", () => {
+    const header = parseBlockHeader("widths:\n- 30%\n- 70%\n- task");
+    expect(header.options).toEqual({ widths: ["30%", "70%"] });
+    expect(header.body).toBe("- task");
+  });
+
+  it("keeps an empty key in the body", () => {
+    const header = parseBlockHeader("widths:\n- task");
+    expect(header.options).toEqual({});
+    expect(header.body).toBe("widths:\n- task");
+  });
+
+  it("keeps colors with commas whole", () => {
+    expect(parseBlockHeader("bg: rgb(1, 2, 3), , red").options).toEqual({
+      bg: ["rgb(1, 2, 3)", "", "red"],
+    });
+  });
+});
+
+describe("serializeBlockHeader", () => {
+  const roundTrip = (options: Parameters<typeof serializeBlockHeader>[0]) =>
+    parseBlockHeader(`${serializeBlockHeader(options).join("\n")}\nbody`);
+
+  it("writes options that read back the same", () => {
+    const options = {
+      id: "weekly",
+      widths: ["30%", "70%"],
+      titles: ["Plan", ""],
+      gap: 8,
+      stack: 0,
+      borders: false,
+      bg: ["rgb(1, 2, 3)", ""],
+    };
+    expect(roundTrip(options)).toEqual({
+      options,
+      headerLineCount: 7,
+      body: "body",
+    });
+  });
+
+  it("quotes titles so commas, quotes and backslashes survive", () => {
+    const titles = ['Say "hi"', "Tom's, Jerry's", "C:\\notes\\", "[draft]"];
+    expect(roundTrip({ titles }).options.titles).toEqual(titles);
+  });
+});
+
+describe("findHorizontalBlockFences", () => {
+  it("finds both languages with their lines and source", () => {
+    const note =
+      "intro\n```hblock\none\n---\ntwo\n```\n~~~horizontal\nthree\n~~~";
+    expect(findHorizontalBlockFences(note)).toEqual([
+      {
+        language: "hblock",
+        startLine: 1,
+        endLine: 5,
+        source: "one\n---\ntwo",
+        nested: false,
+      },
+      {
+        language: "horizontal",
+        startLine: 6,
+        endLine: 8,
+        source: "three",
+        nested: false,
+      },
+    ]);
+  });
+
+  it("skips other code blocks and fences inside them", () => {
+    const note = "````md\n```hblock\none\n```\n````\n```js\nx\n```";
+    expect(findHorizontalBlockFences(note)).toEqual([]);
+  });
+
+  it("strips quote markers from fences in callouts", () => {
+    const note = "> [!note]\n> ```hblock\n> one\n> ---\n> two\n> ```";
+    expect(findHorizontalBlockFences(note)).toEqual([
+      {
+        language: "hblock",
+        startLine: 1,
+        endLine: 5,
+        source: "one\n---\ntwo",
+        nested: true,
+      },
+    ]);
+  });
+
+  it("strips list indentation", () => {
+    const note = "- item\n  ```hblock\n  one\n    indented\n  ```\n- next";
+    expect(findHorizontalBlockFences(note)).toEqual([
+      {
+        language: "hblock",
+        startLine: 1,
+        endLine: 4,
+        source: "one\n  indented",
+        nested: true,
+      },
+    ]);
+  });
+
+  it("ends a quoted block where the quote ends", () => {
+    const note = "> ```hblock\n> one\n\n```hblock\ntwo\n```";
+    const sources = findHorizontalBlockFences(note).map((f) => f.source);
+    expect(sources).toEqual(["two"]);
+  });
+});
+
+describe("rewriteBlockLinks", () => {
+  const rename = (linkpath: string, subpath: string) =>
+    linkpath === "Old" ? `New${subpath}` : null;
+
+  it("keeps sections, aliases and embed markers", () => {
+    const note =
+      "```hblock\n[[Old]] [[Old#Tasks|todo]] ![[Old#^ref]] ![[Old|200]]\n```";
+    expect(rewriteBlockLinks(note, rename)).toBe(
+      "```hblock\n[[New]] [[New#Tasks|todo]] ![[New#^ref]] ![[New|200]]\n```"
+    );
+  });
+
+  it("passes links and embeds the same way", () => {
+    const seen: string[] = [];
+    rewriteBlockLinks("```hblock\n[[A#x]] ![[B]]\n```", (linkpath, subpath) => {
+      seen.push(`${linkpath}|${subpath}`);
+      return null;
+    });
+    expect(seen).toEqual(["A|#x", "B|"]);
+  });
+
+  it("leaves other links and links outside blocks alone", () => {
+    const note = "[[Old]]\n```hblock\n[[Other]]\n```\n```md\n[[Old]]\n```";
+    expect(rewriteBlockLinks(note, rename)).toBe(note);
+  });
+
+  it("rewrites blocks nested in callouts", () => {
+    expect(rewriteBlockLinks("> ```hblock\n> [[Old]]\n> ```", rename)).toBe(
+      "> ```hblock\n> [[New]]\n> ```"
+    );
+  });
+});
+
+describe("extractBlockMetadata", () => {
+  it("collects links, tags and headings with note line numbers", () => {
+    const note = [
+      "# Outside [[Skipped]] #skipped",
+      "```hblock",
+      "widths: 50%, 50%",
+      "## Plan #work",
+      "See [[Goals#Q3|goals]]",
+      "---",
+      "![[Chart.png]] #2024 #a/b",
+      "```",
+    ].join("\n");
+    expect(extractBlockMetadata(note)).toEqual({
+      links: [
+        { linkpath: "Goals", subpath: "#Q3", embed: false, line: 4 },
+        { linkpath: "Chart.png", subpath: "", embed: true, line: 6 },
+      ],
+      tags: [
+        { tag: "#work", line: 3 },
+        { tag: "#a/b", line: 6 },
+      ],
+      headings: [{ heading: "Plan #work", level: 2, line: 3 }],
+    });
+  });
+
+  it("skips code inside columns", () => {
+    const note = "```hblock\n`[[A]]` #one\n~~~\n[[B]] #two\n~~~\n```";
+    expect(extractBlockMetadata(note)).toEqual({
+      links: [],
+      tags: [{ tag: "#one", line: 1 }],
+      headings: [],
+    });
+  });
+
+  it("keeps note line numbers for blocks in callouts", () => {
+    const note = "> [!tip]\n> ```hblock\n> [[A]]\n> ```";
+    expect(extractBlockMetadata(note).links).toEqual([
+      { linkpath: "A", subpath: "", embed: false, line: 2 },
+    ]);
+  });
+});